@@ -0,0 +1,82 @@
+// app/api/bookmarks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Bookmark from "@/models/Bookmark";
+import Post from "@/models/Post";
+import mongoose from "mongoose";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import { POST_POPULATE, withViewerState } from "@/lib/posts";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+// --- GET Handler: The signed-in user's saved posts, most recently saved first ---
+// There is deliberately no way to read another user's bookmarks.
+export async function GET(request: NextRequest) {
+  await dbConnect();
+
+  // 1. Authenticate User
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+  const userId = token.id as string;
+
+  try {
+    // 2. Parse cursor pagination params (the cursor walks bookmark times)
+    const url = new URL(request.url);
+    const limit = parseLimit(url.searchParams.get("limit"));
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Fetch one extra bookmark to know whether another page exists
+    const bookmarks = await Bookmark.find({
+      user: userId,
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .select("post createdAt")
+      .sort(cursorSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(bookmarks, limit);
+
+    // 4. Load the saved posts and keep them in bookmark order
+    const postIds = page.items.map((bookmark) => bookmark.post as mongoose.Types.ObjectId);
+    const posts = await Post.find({ _id: { $in: postIds } })
+      .populate(POST_POPULATE)
+      .lean();
+    const postsById = new Map(posts.map((post) => [post._id.toString(), post]));
+    const savedPosts = page.items
+      .map((bookmark) => postsById.get(bookmark.post.toString()))
+      .filter((post) => post !== undefined); // Deleted since it was saved
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Bookmarks fetched successfully",
+        data: await withViewerState(savedPosts, userId),
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Bookmarks API: Error fetching bookmarks for ${userId}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
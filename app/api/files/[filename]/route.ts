@@ -1,106 +1,174 @@
 // app/api/files/[filename]/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { MongoClient, GridFSBucket, Db } from "mongodb";
+import { GridFSFile } from "mongodb";
 import { Readable } from "stream";
+import { UploadMetadata, getUploadsBucket } from "@/lib/gridfs";
+import { IMAGE_VARIANTS, isImageVariant } from "@/lib/media";
 
-const MONGODB_URI = process.env.MONGODB_URI;
+interface RouteContext {
+  params: {
+    filename: string;
+  };
+}
 
-if (!MONGODB_URI) {
-  throw new Error(
-    "Please define the MONGODB_URI environment variable inside .env.local"
-  );
+// Stored files never change (edits upload new ones), so they can be cached for good
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// Strong validator: the md5 when an older driver stored one, otherwise the id
+// and length, which identify the immutable file just as well
+function etagFor(file: GridFSFile): string {
+  const md5 = (file as GridFSFile & { md5?: string }).md5;
+  return `"${md5 ?? `${file._id.toString()}-${file.length}`}"`;
 }
 
-// --- Database Connection Caching ---
-// Cache the MongoClient connection promise globally
-let clientPromise: Promise<MongoClient> | null = null;
-
-async function getDb(): Promise<Db> {
-  if (!clientPromise) {
-    console.log("File Server: Creating new MongoClient promise");
-    const client = new MongoClient(MONGODB_URI!);
-    // Store the promise, not the resolved client
-    clientPromise = client.connect().catch((err) => {
-      // If connection fails, reset the promise to allow retries
-      clientPromise = null;
-      console.error("File Server: Initial connection failed", err);
-      throw err; // Re-throw error
-    });
-  } else {
-    // console.log("File Server: Reusing existing MongoClient promise");
-  }
+// HTTP dates have one-second precision, so compare at that precision
+function lastModifiedSeconds(file: GridFSFile): number {
+  return Math.floor(file.uploadDate.getTime() / 1000);
+}
 
-  try {
-    const client = await clientPromise; // Wait for the connection promise to resolve
-    // Extract DB name from URI if present, otherwise let driver decide/use default 'test'
-    const url = new URL(MONGODB_URI!);
-    // Remove leading '/' and query params/options
-    const dbNameFromUri = url.pathname.substring(1).split("?")[0];
-    const dbName = dbNameFromUri || "test"; // Fallback to 'test' if not in URI
-    // console.log(`File Server: Using DB: ${dbName}`);
-    return client.db(dbName); // Get the Db instance
-  } catch (error) {
-    console.error("❌ File Server: Failed to get DB instance:", error);
-    // Reset promise if resolving failed after initial connection seemed okay
-    clientPromise = null;
-    throw error; // Rethrow error to be caught by the handler
+// If-None-Match wins over If-Modified-Since when both are sent (RFC 9110 13.2.2)
+function isNotModified(request: NextRequest, file: GridFSFile, etag: string): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
   }
+  const ifModifiedSince = Date.parse(request.headers.get("if-modified-since") ?? "");
+  return !Number.isNaN(ifModifiedSince) && lastModifiedSeconds(file) <= Math.floor(ifModifiedSince / 1000);
 }
-// --- End Database Connection Caching ---
 
-interface RouteContext {
-  params: {
-    filename: string;
-  };
+// If-Range: only honour Range while the client's copy is still current
+function rangeStillValid(request: NextRequest, file: GridFSFile, etag: string): boolean {
+  const ifRange = request.headers.get("if-range");
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"')) return ifRange === etag;
+  const date = Date.parse(ifRange);
+  return !Number.isNaN(date) && lastModifiedSeconds(file) === Math.floor(date / 1000);
 }
 
-export async function GET(request: NextRequest, context: RouteContext) {
-  const { filename } = context.params;
+/**
+ * The byte range requested by a "bytes=" Range header, inclusive at both ends.
+ * Returns null when the whole file should be sent (no header, another unit, an
+ * invalid range, or several ranges, which we answer in full rather than as
+ * multipart) and "unsatisfiable" for ranges that start past the end.
+ */
+function parseRange(header: string | null, size: number): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(size - suffixLength, 0), end: size - 1 };
+  }
+  const start = parseInt(match[1], 10);
+  const lastByte = match[2] ? parseInt(match[2], 10) : Infinity;
+  if (lastByte < start) return null; // Invalid, so ignored
+  if (start >= size) return "unsatisfiable";
+  return { start, end: Math.min(lastByte, size - 1) };
+}
 
+// Look up the file to serve (or its ?variant= rendition), or the error response
+async function findFile(request: NextRequest, filename: string): Promise<GridFSFile | NextResponse> {
   if (!filename) {
     return new NextResponse("Filename parameter is required", { status: 400 });
   }
+  const variant = request.nextUrl.searchParams.get("variant");
+  if (variant !== null && !isImageVariant(variant)) {
+    return new NextResponse(`Variant must be one of: ${Object.keys(IMAGE_VARIANTS).join(", ")}`, { status: 400 });
+  }
 
-  try {
-    const database = await getDb(); // Use the improved connection helper
-    const bucket = new GridFSBucket(database, {
-      bucketName: "uploads", // Must match the bucketName used during upload
-    });
+  const bucket = await getUploadsBucket();
 
-    // Find the file metadata
-    // Use limit(1) for efficiency as we only need one file
-    const files = await bucket.find({ filename }).limit(1).toArray();
-    if (!files || files.length === 0) {
-      console.log(`GridFS GET: File not found - ${filename}`);
-      return new NextResponse("File not found", { status: 404 });
-    }
+  // Find the file metadata
+  // Use limit(1) for efficiency as we only need one file
+  const files = await bucket.find({ filename }).limit(1).toArray();
+  if (!files || files.length === 0) {
+    console.log(`GridFS GET: File not found - ${filename}`);
+    return new NextResponse("File not found", { status: 404 });
+  }
+
+  // Swap in the requested rendition, if the image has one
+  const variantFilename = variant ? (files[0].metadata as UploadMetadata | undefined)?.variants?.[variant] : undefined;
+  const variantFiles = variantFilename ? await bucket.find({ filename: variantFilename }).limit(1).toArray() : [];
+  return variantFiles[0] ?? files[0];
+}
 
-    const file = files[0]; // Get the first match
+/**
+ * Serves an uploaded file; ?variant=thumb|feed|full serves a resized copy of
+ * an image instead (or the original when it is no wider than that variant).
+ * Supports conditional requests (ETag / Last-Modified, answered with 304),
+ * single byte ranges (206, needed for video seeking) and HEAD.
+ */
+async function serveFile(request: NextRequest, context: RouteContext, includeBody: boolean) {
+  const { filename } = context.params;
 
-    // Open a download stream from GridFS
-    const downloadStream = bucket.openDownloadStreamByName(filename);
+  try {
+    // 1. Find the file (or the requested rendition)
+    const file = await findFile(request, filename);
+    if (file instanceof NextResponse) return file;
 
-    // Set appropriate headers for image display
+    // 2. Validators and caching headers, sent on every response
+    const etag = etagFor(file);
     const headers = new Headers();
+    headers.set("ETag", etag);
+    headers.set("Last-Modified", file.uploadDate.toUTCString());
+    headers.set("Cache-Control", CACHE_CONTROL);
+    headers.set("Accept-Ranges", "bytes");
+
+    // 3. The client's cached copy is still good
+    if (isNotModified(request, file, etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    // 4. Work out which bytes to send
     headers.set("Content-Type", file.contentType || "application/octet-stream");
-    // Omit Content-Length for streams, browser will handle it
-    headers.set("Cache-Control", "public, max-age=31536000, immutable"); // Add strong caching
+    const range = rangeStillValid(request, file, etag) ? parseRange(request.headers.get("range"), file.length) : null;
+    if (range === "unsatisfiable") {
+      headers.set("Content-Range", `bytes */${file.length}`);
+      return new NextResponse(null, { status: 416, headers });
+    }
+    const start = range?.start ?? 0;
+    const end = range?.end ?? file.length - 1;
+    headers.set("Content-Length", String(Math.max(end - start + 1, 0)));
+    if (range) headers.set("Content-Range", `bytes ${start}-${end}/${file.length}`);
+    const status = range ? 206 : 200;
+
+    if (!includeBody || file.length === 0) {
+      return new NextResponse(null, { status, headers });
+    }
+
+    // 5. Stream just those bytes from GridFS (the driver's end offset is exclusive)
+    const bucket = await getUploadsBucket();
+    const downloadStream = bucket.openDownloadStream(file._id, { start, end: end + 1 });
 
     // Use ReadableStream from Node.js 'stream' to wrap the GridFS stream
     const nodeReadable = Readable.from(downloadStream);
 
     downloadStream.on("error", (error) => {
-      console.error(`GridFS download stream error for ${filename}:`, error);
+      console.error(`GridFS download stream error for ${file.filename}:`, error);
       // Cannot return NextResponse here as headers might be sent
     });
 
     // Return the stream as the response body
     return new NextResponse(nodeReadable as any, { // Cast needed for type compatibility
-      status: 200,
+      status,
       headers: headers,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error(`Error serving file ${filename}:`, error);
     return new NextResponse("Internal Server Error", { status: 500 });
   }
 }
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return serveFile(request, context, true);
+}
+
+// Same headers as GET, without the body
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  return serveFile(request, context, false);
+}
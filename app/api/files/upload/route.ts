@@ -1,46 +1,13 @@
 // app/api/files/upload/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
-import { GridFSBucket, MongoClient, Db } from "mongodb";
-import crypto from "crypto";
-import path from "path";
-import { Readable } from "stream";
+import { FILE_URL_PREFIX, storeImage, storeVideo } from "@/lib/gridfs";
+import { processImage } from "@/lib/images";
+import { VIDEO_FORMATS, isVideoFormat, validateMediaUpload } from "@/lib/fileType";
+import { MAX_IMAGE_UPLOAD_MB, MAX_VIDEO_UPLOAD_MB } from "@/lib/media";
+import { inspectVideo } from "@/lib/video";
 
 const secret = process.env.NEXTAUTH_SECRET;
-const MONGODB_URI = process.env.MONGODB_URI;
-
-if (!MONGODB_URI) {
-  throw new Error(
-    "Please define the MONGODB_URI environment variable inside .env.local"
-  );
-}
-
-// --- Database Connection Caching (Use the same pattern) ---
-let clientPromise: Promise<MongoClient> | null = null;
-
-async function getDb(): Promise<Db> {
-  if (!clientPromise) {
-    console.log("File Upload API: Creating new MongoClient promise");
-    const client = new MongoClient(MONGODB_URI!);
-    clientPromise = client.connect().catch((err) => {
-      clientPromise = null;
-      console.error("File Upload API: Initial connection failed", err);
-      throw err;
-    });
-  }
-  try {
-    const client = await clientPromise;
-    const url = new URL(MONGODB_URI!);
-    const dbNameFromUri = url.pathname.substring(1).split("?")[0];
-    const dbName = dbNameFromUri || "test";
-    return client.db(dbName);
-  } catch (error) {
-    console.error("❌ File Upload API: Failed to get DB instance:", error);
-    clientPromise = null;
-    throw error;
-  }
-}
-// --- End Database Connection Caching ---
 
 // --- POST Handler ---
 export async function POST(request: NextRequest) {
@@ -56,9 +23,6 @@ export async function POST(request: NextRequest) {
   const userId = token.id as string; // For metadata
 
   try {
-    const database = await getDb();
-    const bucket = new GridFSBucket(database, { bucketName: "uploads" });
-
     // 2. Parse FormData
     const formData = await request.formData();
     // Use a generic field name like 'file'
@@ -71,60 +35,92 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 3. Validation (Example: Image type and size)
-    if (!file.type.startsWith("image/")) {
+    // 3. Validation: the actual bytes (the declared type is only checked against them), then size.
+    // Videos and GIFs get the larger cap; other images are far smaller at any sensible size.
+    if (file.size > MAX_VIDEO_UPLOAD_MB * 1024 * 1024) {
+        return NextResponse.json(
+            { success: false, message: `File size exceeds ${MAX_VIDEO_UPLOAD_MB}MB limit.` },
+            { status: 400 }
+        );
+    }
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const detected = validateMediaUpload(fileBuffer, file.type);
+    if ("error" in detected) {
         return NextResponse.json(
-            { success: false, message: "Invalid file type. Only images allowed." },
+            { success: false, message: detected.error },
             { status: 400 }
         );
     }
-    const maxSizeMB = 10; // Example: 10MB limit
-    if (file.size > maxSizeMB * 1024 * 1024) {
+    const { format } = detected;
+    if (!isVideoFormat(format) && format !== "gif" && file.size > MAX_IMAGE_UPLOAD_MB * 1024 * 1024) {
         return NextResponse.json(
-            { success: false, message: `File size exceeds ${maxSizeMB}MB limit.` },
+            { success: false, message: `Image size exceeds ${MAX_IMAGE_UPLOAD_MB}MB limit.` },
             { status: 400 }
         );
     }
 
-    // 4. Prepare file data for GridFS
-    const filename =
-      crypto.randomBytes(16).toString("hex") + path.extname(file.name);
-    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    // 4. Videos: probe (length limit included), make a poster and store the file as-is
+    if (isVideoFormat(format)) {
+      const video = await inspectVideo(fileBuffer, format);
+      if ("error" in video) {
+        return NextResponse.json(
+          { success: false, message: video.error },
+          { status: 400 }
+        );
+      }
+      const filename = await storeVideo({ data: fileBuffer, ...VIDEO_FORMATS[format], ...video }, userId);
+      console.log(`File Upload API: Video ${filename} uploaded by ${userId}`);
+      return NextResponse.json(
+        {
+          success: true,
+          message: "File uploaded successfully",
+          data: {
+            fileUrl: `${FILE_URL_PREFIX}${filename}`,
+            contentType: VIDEO_FORMATS[format].contentType,
+            width: video.width,
+            height: video.height,
+            duration: video.duration,
+          },
+        },
+        { status: 201 }
+      );
+    }
 
-    // 5. Stream Buffer to GridFS
-    const uploadStream = bucket.openUploadStream(filename, {
-      contentType: file.type,
-      metadata: { uploaderId: userId }, // Store who uploaded it
-    });
-    await new Promise<void>((resolve, reject) => {
-      const readableStream = new Readable();
-      readableStream._read = () => {};
-      readableStream.push(fileBuffer);
-      readableStream.push(null);
-      readableStream
-        .pipe(uploadStream)
-        .on("error", (error) => reject(error))
-        .on("finish", () => resolve());
-    });
+    // 5. Images: decode and re-encode (orientation applied, metadata stripped, renditions made)
+    const image = await processImage(fileBuffer, format);
+    if ("error" in image) {
+      return NextResponse.json(
+        { success: false, message: image.error },
+        { status: 400 }
+      );
+    }
 
+    // 6. Store the original, its renditions and any poster in GridFS
+    const filename = await storeImage(image, userId);
     console.log(`File Upload API: File ${filename} uploaded by ${userId}`);
 
-    // 6. Construct the URL to access the file
-    const fileUrl = `/api/files/${filename}`;
+    // 7. Construct the URL to access the file
+    const fileUrl = `${FILE_URL_PREFIX}${filename}`;
 
-    // 7. Return the URL
+    // 8. Return the URL and what the stored image turned out as
     return NextResponse.json(
       {
         success: true,
         message: "File uploaded successfully",
-        data: { fileUrl: fileUrl }, // Return the relative URL
+        data: {
+          fileUrl: fileUrl, // Return the relative URL
+          contentType: image.original.contentType,
+          width: image.original.width,
+          height: image.original.height,
+          duration: image.duration,
+        },
       },
       { status: 201 } // 201 Created
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error(`File Upload API: Error for user ${token?.id}:`, error);
     return NextResponse.json(
-      { success: false, message: error.message || "Internal Server Error during upload" },
+      { success: false, message: "Internal Server Error" },
       { status: 500 }
     );
   }
@@ -0,0 +1,115 @@
+// app/api/notifications/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Notification from "@/models/Notification";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import { NOTIFICATION_POPULATE, emitUnreadCount, getUnreadCount } from "@/lib/notifications";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+// --- GET Handler: The current user's inbox, newest activity first ---
+export async function GET(request: NextRequest) {
+  await dbConnect();
+
+  // 1. Authenticate User
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const userId = token.id as string;
+
+  try {
+    // 2. Parse cursor pagination params
+    const url = new URL(request.url);
+    const limit = parseLimit(url.searchParams.get("limit"), 20);
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ success: false, message: "Invalid cursor" }, { status: 400 });
+    }
+
+    // 3. Fetch one extra item to know whether another page exists
+    // Grouped notifications move to the top when a new actor joins, so page on updatedAt
+    const notifications = await Notification.find({
+      recipient: userId,
+      ...(cursor ? cursorFilter(cursor, "updatedAt") : {}),
+    })
+      .populate(NOTIFICATION_POPULATE)
+      .sort(cursorSort("updatedAt"))
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(notifications, limit, "updatedAt");
+    const unreadCount = await getUnreadCount(userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Notifications fetched successfully",
+        data: page.items,
+        unreadCount,
+        pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Notifications API: Error fetching notifications for ${userId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// --- PATCH Handler: Mark notifications as read ---
+// Body: { notificationIds: string[] } to mark specific ones, or { all: true }
+export async function PATCH(request: NextRequest) {
+  await dbConnect();
+
+  // 1. Authenticate User
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const userId = token.id as string;
+
+  try {
+    // 2. Validate Input
+    const { notificationIds, all } = await request.json();
+    const filter: Record<string, unknown> = { recipient: userId, read: false };
+
+    if (all !== true) {
+      if (
+        !Array.isArray(notificationIds) ||
+        notificationIds.length === 0 ||
+        !notificationIds.every((id) => typeof id === "string" && mongoose.Types.ObjectId.isValid(id))
+      ) {
+        return NextResponse.json(
+          { success: false, message: "Provide notificationIds or all: true" },
+          { status: 400 }
+        );
+      }
+      filter._id = { $in: notificationIds };
+    }
+
+    // 3. Mark as read (scoped to the recipient, so other users' ids are ignored).
+    // Reading is not new activity: updatedAt orders the inbox and its cursors.
+    const result = await Notification.updateMany(filter, { $set: { read: true } }, { timestamps: false });
+    console.log(`Notifications API: User ${userId} marked ${result.modifiedCount} notification(s) read`);
+
+    // 4. Keep badges in the user's other tabs in sync
+    await emitUnreadCount(userId);
+    const unreadCount = await getUnreadCount(userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Notifications marked as read",
+        data: { modifiedCount: result.modifiedCount, unreadCount },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Notifications API: Error marking notifications read for ${userId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
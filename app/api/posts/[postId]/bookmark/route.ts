@@ -0,0 +1,102 @@
+// app/api/posts/[postId]/bookmark/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import Bookmark from "@/models/Bookmark";
+import mongoose from "mongoose";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+// Bookmarks are private: nothing here is broadcast or notified,
+// and responses only ever describe the requesting user's own bookmark.
+
+// Shared by both handlers: authenticate and validate the ID
+async function resolveRequest(request: NextRequest, postId: string) {
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return { error: NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return { error: NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 }) };
+  }
+  return { userId: token.id as string };
+}
+
+// --- POST Handler: Bookmark a post (idempotent) ---
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User and Validate Post ID
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId } = resolved;
+
+  try {
+    // 2. Check the post exists
+    if (!(await Post.exists({ _id: postId }))) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 });
+    }
+
+    // 3. Save it (a second save is a no-op)
+    await Bookmark.updateOne(
+      { user: userId, post: postId },
+      { $setOnInsert: { user: userId, post: postId } },
+      { upsert: true }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Post bookmarked",
+        data: { postId, bookmarked: true },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Bookmark API: Error bookmarking post ${postId}:`, error);
+    if ((error as { code?: number }).code === 11000) {
+      // A concurrent request saved it first
+      return NextResponse.json(
+        { success: true, message: "Post bookmarked", data: { postId, bookmarked: true } },
+        { status: 200 }
+      );
+    }
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: Remove a bookmark (idempotent) ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User and Validate Post ID
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId } = resolved;
+
+  try {
+    // 2. Remove it (the post may already be gone)
+    await Bookmark.deleteOne({ user: userId, post: postId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Bookmark removed",
+        data: { postId, bookmarked: false },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Bookmark API: Error removing bookmark on post ${postId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,172 @@
+// app/api/posts/[postId]/comments/[commentId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import Comment from "@/models/Comment";
+import "@/models/User"; // Register the User model for population
+import mongoose from "mongoose";
+import { emitSocketEvent, postRoom } from "@/lib/socketInstance";
+import { notifyMentions } from "@/lib/notifications";
+import { COMMENT_POPULATE, resolveMentions } from "@/lib/posts";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+    commentId: string;
+  };
+}
+
+// Shared by both handlers: both IDs must be valid ObjectIds
+function validateIds(postId: string, commentId: string) {
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 });
+  }
+  if (!commentId || !mongoose.Types.ObjectId.isValid(commentId)) {
+    return NextResponse.json({ success: false, message: "Invalid Comment ID" }, { status: 400 });
+  }
+  return null;
+}
+
+// --- PATCH Handler: The commenter edits their comment's text ---
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { postId, commentId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const userId = token.id as string;
+
+  // 2. Validate IDs
+  const invalid = validateIds(postId, commentId);
+  if (invalid) return invalid;
+
+  try {
+    // 3. Validate Input
+    const { text } = await request.json();
+    if (!text || typeof text !== "string" || text.trim().length === 0) {
+      return NextResponse.json({ success: false, message: "Comment text cannot be empty" }, { status: 400 });
+    }
+    if (text.length > 500) {
+      return NextResponse.json({ success: false, message: "Comment cannot exceed 500 characters" }, { status: 400 });
+    }
+
+    // 4. Find the Comment on this Post
+    const comment = await Comment.findOne({ _id: commentId, post: postId });
+    if (!comment) {
+      return NextResponse.json({ success: false, message: "Comment not found" }, { status: 404 });
+    }
+
+    // 5. Authorize Edit (only the commenter)
+    if (comment.user.toString() !== userId) {
+      return NextResponse.json({ success: false, message: "Forbidden: You can only edit your own comments" }, { status: 403 });
+    }
+
+    // 6. Apply the edit
+    const previousMentions = comment.mentions;
+    const mentions = await resolveMentions(text);
+    comment.text = text.trim();
+    comment.mentions = mentions;
+    comment.editedAt = new Date();
+    await comment.save();
+    await comment.populate(COMMENT_POPULATE);
+    console.log(`Comment API: User ${userId} edited comment ${commentId} on post ${postId}`);
+
+    const commentData = comment.toObject();
+
+    // 7. Broadcast the edit to clients viewing this post
+    emitSocketEvent("comment_updated", { postId, comment: commentData }, postRoom(postId));
+
+    // 8. Tell only the users newly mentioned by the edit
+    await notifyMentions(mentions, userId, postId, previousMentions);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Comment updated successfully",
+        data: commentData,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Comment API: Error editing comment ${commentId} on post ${postId}:`, error);
+    if (error instanceof mongoose.Error.ValidationError) {
+      const messages = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json({ success: false, message: messages.join(", ") }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: The commenter or the post author removes a comment ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { postId, commentId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const userId = token.id as string;
+
+  // 2. Validate IDs
+  const invalid = validateIds(postId, commentId);
+  if (invalid) return invalid;
+
+  try {
+    // 3. Find the Comment and its Post
+    const [comment, post] = await Promise.all([
+      Comment.findOne({ _id: commentId, post: postId }),
+      Post.findById(postId).select("author"),
+    ]);
+    if (!comment || !post) {
+      return NextResponse.json({ success: false, message: "Comment not found" }, { status: 404 });
+    }
+
+    // 4. Authorize Deletion (the commenter, or the author of the post)
+    const isCommenter = comment.user.toString() === userId;
+    const isPostAuthor = post.author.toString() === userId;
+    if (!isCommenter && !isPostAuthor) {
+      return NextResponse.json(
+        { success: false, message: "Forbidden: You can only delete your own comments or comments on your posts" },
+        { status: 403 }
+      );
+    }
+
+    // 5. Delete the Comment and update the post's count
+    const { deletedCount } = await Comment.deleteOne({ _id: commentId });
+    if (!deletedCount) {
+      // Removed by a concurrent request
+      return NextResponse.json({ success: false, message: "Comment not found" }, { status: 404 });
+    }
+    const updatedPost = await Post.findOneAndUpdate(
+      { _id: postId, commentCount: { $gt: 0 } },
+      { $inc: { commentCount: -1 } },
+      { new: true }
+    ).select("commentCount");
+    console.log(`Comment API: User ${userId} deleted comment ${commentId} on post ${postId}`);
+
+    const commentCount = updatedPost?.commentCount ?? 0;
+
+    // 6. Broadcast the deletion to clients viewing this post
+    emitSocketEvent("comment_deleted", { postId, commentId, commentCount }, postRoom(postId));
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Comment deleted successfully",
+        data: { postId, commentId, commentCount },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Comment API: Error deleting comment ${commentId} on post ${postId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -2,10 +2,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
 import dbConnect from "@/lib/dbConnect";
-import Post, { IComment } from "@/models/Post";
-import User from "@/models/User"; // Import User model for population
+import Post from "@/models/Post";
+import Comment from "@/models/Comment";
+import "@/models/User"; // Register the User model for population
 import mongoose from "mongoose";
-// Removed Socket.IO imports
+import { emitSocketEvent, postRoom } from "@/lib/socketInstance";
+import { notify, notifyMentions } from "@/lib/notifications";
+import { COMMENT_POPULATE, resolveMentions } from "@/lib/posts";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
 
 const secret = process.env.NEXTAUTH_SECRET;
 
@@ -15,6 +19,73 @@ interface RouteContext {
   };
 }
 
+// --- GET Handler: A page of the post's comments, newest first ---
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Validate Post ID
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return NextResponse.json(
+      { success: false, message: "Invalid Post ID" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // 2. Parse cursor pagination params
+    const url = new URL(request.url);
+    const limit = parseLimit(url.searchParams.get("limit"));
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Check the post exists (an empty page would hide a bad ID)
+    if (!(await Post.exists({ _id: postId }))) {
+      return NextResponse.json(
+        { success: false, message: "Post not found" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Fetch one extra comment to know whether another page exists
+    const comments = await Comment.find({
+      post: postId,
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .populate(COMMENT_POPULATE)
+      .sort(cursorSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(comments, limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Comments fetched successfully",
+        data: page.items,
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Comment API: Error fetching comments for post ${postId}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(request: NextRequest, context: RouteContext) {
   const { postId } = context.params;
   await dbConnect();
@@ -56,58 +127,55 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // 4. Create Comment Subdocument Object
-    const newCommentObject = { // Renamed to avoid conflict with IComment type
-      user: userId,
-      text: text.trim(),
-      // createdAt will be added automatically by the subdocument schema
-    };
-
-    // 5. Find Post and Push Comment
-    const updatedPost = await Post.findByIdAndUpdate(
-      postId,
-      {
-        $push: {
-          comments: {
-            $each: [newCommentObject],
-            $sort: { createdAt: -1 }, // Keep comments sorted by newest
-          },
-        },
-      },
-      { new: true } // Return the updated document
-    );
-
-    if (!updatedPost) {
+    // 4. Check the post exists
+    const post = await Post.findById(postId).select("author");
+    if (!post) {
       return NextResponse.json(
-        { success: false, message: "Post not found or failed to add comment" },
+        { success: false, message: "Post not found" },
         { status: 404 }
       );
     }
 
-    // 6. Find the newly added comment to populate its user for the response
-    // The newly added comment should be the first one if sorted by descending createdAt
-    // Ensure comments array exists and is not empty
-    if (!updatedPost.comments || updatedPost.comments.length === 0) {
-        throw new Error("Failed to find the added comment in the post document.");
-    }
-    const addedComment = updatedPost.comments[0] as mongoose.Document & IComment; // Cast for population
-
-    // Manually populate the user for the single comment response
-    await User.populate(addedComment, {
-      path: "user",
-      select: "username profilePicture",
+    // 5. Create the Comment and bump the post's count
+    const mentions = await resolveMentions(text);
+    const newComment = await Comment.create({
+      post: postId,
+      user: userId,
+      text: text.trim(),
+      mentions,
     });
+    const updatedPost = await Post.findByIdAndUpdate(
+      postId,
+      { $inc: { commentCount: 1 } },
+      { new: true }
+    ).select("author commentCount");
+
+    // 6. Populate the user (and mentions) for the response
+    await newComment.populate(COMMENT_POPULATE);
 
     console.log(`Comment API: User ${userId} commented on post ${postId}`);
 
-    // --- Socket Emit Section REMOVED ---
+    const commentData = newComment.toObject(); // Convert Mongoose doc to plain object
+    const commentCount = updatedPost?.commentCount ?? 0;
+
+    // 7. Broadcast the new comment to clients viewing this post
+    emitSocketEvent("comment_added", { postId, comment: commentData, commentCount }, postRoom(postId));
+
+    // 8. Notify the post author and anyone mentioned
+    await notify({
+      recipientId: post.author.toString(),
+      actorId: userId,
+      type: "comment",
+      postId,
+    });
+    await notifyMentions(mentions, userId, postId);
 
-    // 7. Return the newly added comment (with populated user)
+    // 9. Return the newly added comment (with populated user)
     return NextResponse.json(
       {
         success: true,
         message: "Comment added successfully",
-        data: addedComment.toObject(), // Convert Mongoose doc to plain object
+        data: commentData,
       },
       { status: 201 } // 201 Created
     );
@@ -0,0 +1,62 @@
+// app/api/posts/[postId]/history/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import mongoose from "mongoose";
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+// --- GET Handler: Edit history of a post (current version first) ---
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Validate Post ID
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 });
+  }
+
+  try {
+    // 2. Find the Post including its stored revisions
+    const post = await Post.findById(postId)
+      .select("content imageUrl createdAt editedAt +revisions")
+      .lean();
+    if (!post) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 });
+    }
+
+    // 3. Current version followed by prior versions, newest first
+    const versions = [
+      {
+        content: post.content,
+        imageUrl: post.imageUrl,
+        createdAt: post.editedAt ?? post.createdAt,
+        current: true,
+      },
+      ...(post.revisions ?? [])
+        .slice()
+        .reverse()
+        .map((revision) => ({ ...revision, current: false })),
+    ];
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Post history fetched successfully",
+        data: {
+          postId,
+          editedAt: post.editedAt ?? null,
+          versions,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Post History API: Error fetching history for post ${postId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+// app/api/posts/[postId]/likes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import Reaction from "@/models/Reaction";
+import User, { IUser } from "@/models/User";
+import mongoose from "mongoose";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import { isReactionType, REACTION_TYPES } from "@/lib/reactions";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+type ReactingUser = Pick<IUser, "username" | "name" | "profilePicture"> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+// --- GET Handler: A page of the users who liked a post, most recent first ---
+// ?type= lists another reaction instead (defaults to "like")
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Validate Post ID
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return NextResponse.json(
+      { success: false, message: "Invalid Post ID" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // 2. Parse reaction type and cursor pagination params
+    const url = new URL(request.url);
+    const type = url.searchParams.get("type") || "like";
+    if (!isReactionType(type)) {
+      return NextResponse.json(
+        { success: false, message: `Reaction type must be one of: ${REACTION_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const limit = parseLimit(url.searchParams.get("limit"), 20);
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Check the post exists (an empty page would hide a bad ID)
+    if (!(await Post.exists({ _id: postId }))) {
+      return NextResponse.json(
+        { success: false, message: "Post not found" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Fetch one extra reaction to know whether another page exists
+    const reactions = await Reaction.find({
+      post: postId,
+      type,
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .populate<{ user: ReactingUser | null }>("user", "username name profilePicture")
+      .sort(cursorSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(reactions, limit);
+
+    // 5. Mark which of these users the viewer already follows
+    const token = await getToken({ req: request, secret });
+    const viewer = token?.id
+      ? await User.findById(token.id).select("following").lean()
+      : null;
+    const following = new Set((viewer?.following ?? []).map((id) => id.toString()));
+
+    const users = page.items
+      .filter((reaction) => reaction.user) // Skip reactions from deleted accounts
+      .map((reaction) => ({
+        _id: reaction.user!._id.toString(),
+        username: reaction.user!.username,
+        name: reaction.user!.name,
+        profilePicture: reaction.user!.profilePicture,
+        reactedAt: reaction.createdAt,
+        isFollowing: following.has(reaction.user!._id.toString()),
+        isViewer: reaction.user!._id.toString() === token?.id,
+      }));
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Likes fetched successfully",
+        data: users,
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Likes API: Error fetching likes for post ${postId}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+// app/api/posts/[postId]/pin/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import User from "@/models/User";
+import mongoose from "mongoose";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+// Shared by both handlers: authenticate and validate the ID
+async function resolveRequest(request: NextRequest, postId: string) {
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return { error: NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return { error: NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 }) };
+  }
+  return { userId: token.id as string };
+}
+
+// --- POST Handler: Pin one of the user's own posts to their profile ---
+// Users have a single pinned post; pinning another replaces it.
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User and Validate Post ID
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId } = resolved;
+
+  try {
+    // 2. Find the Post
+    const post = await Post.findById(postId).select("author repostOf parent").lean();
+    if (!post) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 });
+    }
+
+    // 3. Authorize (own top-level posts only; a repost is someone else's post)
+    if (post.author.toString() !== userId) {
+      return NextResponse.json({ success: false, message: "You can only pin your own posts" }, { status: 403 });
+    }
+    if (post.repostOf) {
+      return NextResponse.json({ success: false, message: "Reposts cannot be pinned" }, { status: 400 });
+    }
+    if (post.parent) {
+      return NextResponse.json({ success: false, message: "Replies cannot be pinned" }, { status: 400 });
+    }
+
+    // 4. Pin it
+    await User.updateOne({ _id: userId }, { $set: { pinnedPost: postId } });
+    console.log(`Pin API: User ${userId} pinned post ${postId}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Post pinned to your profile",
+        data: { postId, pinned: true },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Pin API: Error pinning post ${postId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: Unpin the post (a no-op if it is not the pinned one) ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User and Validate Post ID
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId } = resolved;
+
+  try {
+    // 2. Unpin it
+    await User.updateOne({ _id: userId, pinnedPost: postId }, { $set: { pinnedPost: null } });
+    console.log(`Pin API: User ${userId} unpinned post ${postId}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Post unpinned",
+        data: { postId, pinned: false },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Pin API: Error unpinning post ${postId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
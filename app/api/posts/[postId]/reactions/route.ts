@@ -0,0 +1,174 @@
+// app/api/posts/[postId]/reactions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import Reaction from "@/models/Reaction";
+import mongoose from "mongoose";
+import { emitSocketEvent, postRoom } from "@/lib/socketInstance";
+import { notify, retractNotification } from "@/lib/notifications";
+import { isReactionType, ReactionType, REACTION_TYPES } from "@/lib/reactions";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+// Likes keep their own notification ("liked your post"); the rest are grouped as reactions
+function notificationTypeFor(type: ReactionType) {
+  return type === "like" ? ("like" as const) : ("reaction" as const);
+}
+
+// Apply count changes to the post, broadcast them and return the new counts
+async function updateCounts(postId: string, inc: Record<string, number>) {
+  const updatedPost = await Post.findByIdAndUpdate(postId, { $inc: inc }, { new: true })
+    .select("reactionCounts")
+    .lean();
+  const reactionCounts = updatedPost?.reactionCounts ?? {};
+  emitSocketEvent("reactions_updated", { postId, reactionCounts }, postRoom(postId));
+  return reactionCounts;
+}
+
+// Shared by both handlers: authenticate, validate the ID and load the post's author
+async function resolveRequest(request: NextRequest, postId: string) {
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return { error: NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return { error: NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 }) };
+  }
+  const post = await Post.findById(postId).select("author reactionCounts").lean();
+  if (!post) {
+    return { error: NextResponse.json({ success: false, message: "Post not found" }, { status: 404 }) };
+  }
+  return { userId: token.id as string, post };
+}
+
+// --- PUT Handler: Set (or change) the viewer's reaction ---
+// Body: { type: one of REACTION_TYPES }
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User, Validate Post ID and find the Post
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId, post } = resolved;
+
+  try {
+    // 2. Validate Input
+    const { type } = await request.json();
+    if (!isReactionType(type)) {
+      return NextResponse.json(
+        { success: false, message: `Reaction must be one of: ${REACTION_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // 3. Upsert the user's single reaction, getting the previous one back
+    const previous = await Reaction.findOneAndUpdate(
+      { post: postId, user: userId },
+      { $set: { type } },
+      { upsert: true, new: false, runValidators: true }
+    ).lean();
+
+    if (previous?.type === type) {
+      // Nothing changed
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Reaction unchanged",
+          data: { reactionCounts: post.reactionCounts ?? {}, viewerReaction: type },
+        },
+        { status: 200 }
+      );
+    }
+
+    // 4. Move the user's count from the old reaction to the new one
+    const reactionCounts = await updateCounts(postId, {
+      [`reactionCounts.${type}`]: 1,
+      ...(previous && { [`reactionCounts.${previous.type}`]: -1 }),
+    });
+    console.log(`Reaction API: User ${userId} reacted '${type}' to post ${postId}`);
+
+    // 5. Notify the post author (moving the user between groups if the kind changed)
+    const notificationEvent = { recipientId: post.author.toString(), actorId: userId, postId };
+    const newNotificationType = notificationTypeFor(type);
+    const oldNotificationType = previous ? notificationTypeFor(previous.type) : null;
+    if (oldNotificationType !== newNotificationType) {
+      if (oldNotificationType) {
+        await retractNotification({ ...notificationEvent, type: oldNotificationType });
+      }
+      await notify({ ...notificationEvent, type: newNotificationType });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Reaction saved successfully",
+        data: { reactionCounts, viewerReaction: type },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Reaction API: Error reacting to post ${postId}:`, error);
+    if ((error as { code?: number }).code === 11000) {
+      // Two concurrent first reactions from the same user; the other one won
+      return NextResponse.json({ success: false, message: "Reaction already being saved, please retry" }, { status: 409 });
+    }
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: Remove the viewer's reaction ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User, Validate Post ID and find the Post
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId, post } = resolved;
+
+  try {
+    // 2. Remove the reaction (if any)
+    const removed = await Reaction.findOneAndDelete({ post: postId, user: userId }).lean();
+    if (!removed) {
+      return NextResponse.json(
+        {
+          success: true,
+          message: "No reaction to remove",
+          data: { reactionCounts: post.reactionCounts ?? {}, viewerReaction: null },
+        },
+        { status: 200 }
+      );
+    }
+
+    // 3. Update the counts and take the user back out of the author's inbox
+    const reactionCounts = await updateCounts(postId, { [`reactionCounts.${removed.type}`]: -1 });
+    console.log(`Reaction API: User ${userId} removed '${removed.type}' from post ${postId}`);
+
+    await retractNotification({
+      recipientId: post.author.toString(),
+      actorId: userId,
+      type: notificationTypeFor(removed.type),
+      postId,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Reaction removed successfully",
+        data: { reactionCounts, viewerReaction: null },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Reaction API: Error removing reaction from post ${postId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
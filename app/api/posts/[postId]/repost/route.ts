@@ -0,0 +1,122 @@
+// app/api/posts/[postId]/repost/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post, { IPost } from "@/models/Post";
+import mongoose from "mongoose";
+import { emitSocketEvent } from "@/lib/socketInstance";
+import { notify, retractNotification } from "@/lib/notifications";
+import { POST_POPULATE, broadcastNewPost, emitShareCounts } from "@/lib/posts";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+// Shared by both handlers: authenticate, validate the ID and find the original.
+// Reposting a repost shares its original instead.
+async function resolveRequest(request: NextRequest, postId: string) {
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return { error: NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 }) };
+  }
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return { error: NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 }) };
+  }
+  let original: IPost | null = await Post.findById(postId).select("author repostOf");
+  if (original?.repostOf) {
+    original = await Post.findById(original.repostOf).select("author repostOf");
+  }
+  if (!original) {
+    return { error: NextResponse.json({ success: false, message: "Post not found" }, { status: 404 }) };
+  }
+  return { userId: token.id as string, originalId: original._id!.toString(), authorId: original.author.toString() };
+}
+
+// --- POST Handler: Repost a post to the user's followers ---
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User, Validate Post ID and find the original
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId, originalId, authorId } = resolved;
+
+  try {
+    // 2. One repost per user per post
+    if (await Post.exists({ repostOf: originalId, author: userId })) {
+      return NextResponse.json({ success: false, message: "You have already reposted this post" }, { status: 409 });
+    }
+
+    // 3. Create the Repost and count it on the original
+    const repost = await Post.create({ author: userId, content: "", repostOf: originalId });
+    await Post.updateOne({ _id: originalId }, { $inc: { repostCount: 1 } });
+    console.log(`Repost API: User ${userId} reposted post ${originalId}`);
+
+    const populatedRepost = await Post.findById(repost._id).populate(POST_POPULATE).lean();
+
+    // 4. Show it in timelines, update counts for viewers and tell the author
+    await broadcastNewPost(populatedRepost!, userId);
+    await emitShareCounts(originalId);
+    await notify({ recipientId: authorId, actorId: userId, type: "repost", postId: originalId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Post reposted successfully",
+        data: populatedRepost,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`Repost API: Error reposting post ${originalId}:`, error);
+    if ((error as { code?: number }).code === 11000) {
+      // A concurrent request created the repost first
+      return NextResponse.json({ success: false, message: "You have already reposted this post" }, { status: 409 });
+    }
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: Undo the user's repost ---
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User, Validate Post ID and find the original
+  const resolved = await resolveRequest(request, postId);
+  if (resolved.error) return resolved.error;
+  const { userId, originalId, authorId } = resolved;
+
+  try {
+    // 2. Remove the Repost
+    const repost = await Post.findOneAndDelete({ repostOf: originalId, author: userId }).select("_id");
+    if (!repost) {
+      return NextResponse.json({ success: false, message: "You have not reposted this post" }, { status: 404 });
+    }
+    await Post.updateOne({ _id: originalId, repostCount: { $gt: 0 } }, { $inc: { repostCount: -1 } });
+    console.log(`Repost API: User ${userId} undid their repost of ${originalId}`);
+
+    // 3. Drop it from timelines, update counts and the author's inbox
+    const repostId = repost._id!.toString();
+    emitSocketEvent("post_deleted", { postId: repostId });
+    await emitShareCounts(originalId);
+    await retractNotification({ recipientId: authorId, actorId: userId, type: "repost", postId: originalId });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Repost removed successfully",
+        data: { postId: originalId, repostId },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Repost API: Error removing repost of ${originalId}:`, error);
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -3,46 +3,19 @@ import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
 import dbConnect from "@/lib/dbConnect";
 import Post from "@/models/Post";
+import Comment from "@/models/Comment";
+import Reaction from "@/models/Reaction";
+import Bookmark from "@/models/Bookmark";
 import User from "@/models/User"; // Needed if we check comments/likes later
 import mongoose from "mongoose";
-import { GridFSBucket, MongoClient, Db, ObjectId } from "mongodb"; // Import GridFSBucket & ObjectId
+import { emitSocketEvent, postRoom } from "@/lib/socketInstance";
+import { POST_POPULATE, emitShareCounts, resolveImageUrl, resolveMentions } from "@/lib/posts";
+import { notifyMentions } from "@/lib/notifications";
+import { POST_EDIT_WINDOW_MINUTES, buildEditUpdate, isWithinEditWindow, resolveEditedContent } from "@/lib/postEditing";
+import { refreshPostLinkPreview } from "@/lib/linkPreview";
+import { deleteUploads, filenameFromUrl } from "@/lib/gridfs";
 
 const secret = process.env.NEXTAUTH_SECRET;
-const MONGODB_URI = process.env.MONGODB_URI;
-
-if (!MONGODB_URI) {
-  throw new Error(
-    "Please define the MONGODB_URI environment variable inside .env.local"
-  );
-}
-
-// --- Database Connection Caching for GridFS ---
-let clientPromise: Promise<MongoClient> | null = null;
-async function getDb(): Promise<Db> {
-    // ... (Use the same getDb function as in file upload/serve routes) ...
-    if (!clientPromise) {
-        console.log("Delete Post API: Creating new MongoClient promise for GridFS");
-        const client = new MongoClient(MONGODB_URI!);
-        clientPromise = client.connect().catch((err) => {
-        clientPromise = null;
-        console.error("Delete Post API: GridFS connection failed", err);
-        throw err;
-        });
-    }
-    try {
-        const client = await clientPromise;
-        const url = new URL(MONGODB_URI!);
-        const dbNameFromUri = url.pathname.substring(1).split("?")[0];
-        const dbName = dbNameFromUri || "test";
-        return client.db(dbName);
-    } catch (error) {
-        console.error("❌ Delete Post API: Failed to get DB instance for GridFS:", error);
-        clientPromise = null;
-        throw error;
-    }
-}
-// --- End Database Connection Caching ---
-
 
 interface RouteContext {
   params: {
@@ -68,8 +41,8 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   }
 
   try {
-    // 3. Find the Post
-    const post = await Post.findById(postId);
+    // 3. Find the Post (with its revisions, for their images)
+    const post = await Post.findById(postId).select("+revisions");
     if (!post) {
       return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 });
     }
@@ -83,34 +56,53 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     await Post.findByIdAndDelete(postId);
     console.log(`Post Deleted: Post ${postId} deleted by user ${userId}`);
 
-    // 6. Delete Associated Image from GridFS (if exists)
-    if (post.imageUrl && post.imageUrl.startsWith("/api/files/")) {
-      const filename = post.imageUrl.split("/").pop(); // Extract filename from URL
-      if (filename) {
-        try {
-          const database = await getDb(); // Get DB connection for GridFS
-          const bucket = new GridFSBucket(database, { bucketName: "uploads" });
-
-          // Find the file ID in fs.files
-          const files = await bucket.find({ filename }).limit(1).toArray();
-          if (files && files.length > 0) {
-            const fileId = files[0]._id as ObjectId; // Get the ObjectId
-            await bucket.delete(fileId);
-            console.log(`GridFS Delete: Deleted image ${filename} (ID: ${fileId}) for post ${postId}`);
-          } else {
-            console.warn(`GridFS Delete: Image file ${filename} not found for post ${postId}`);
-          }
-        } catch (gridFsError) {
-          // Log GridFS error but don't necessarily fail the whole request
-          // The post is deleted, which is the main goal. Orphaned files can be cleaned up later.
-          console.error(`GridFS Delete Error for post ${postId}, file ${filename}:`, gridFsError);
-        }
-      }
+    // 5a. Remove the post's comments, reactions and bookmarks
+    await Promise.all([
+      Comment.deleteMany({ post: postId }),
+      Reaction.deleteMany({ post: postId }),
+      Bookmark.deleteMany({ post: postId }),
+    ]);
+
+    // 5b. A deleted reply no longer counts towards its parent
+    // (replies to a deleted post stay reachable through their own thread views)
+    if (post.parent) {
+      await Post.updateOne({ _id: post.parent, replyCount: { $gt: 0 } }, { $inc: { replyCount: -1 } });
     }
 
-    // --- Socket Emit logic will be handled by the client ---
+    // 5c. Likewise for a repost or quote and the post it shared
+    const sharedPostId = post.repostOf ?? post.quoteOf;
+    if (sharedPostId) {
+      const counter = post.repostOf ? "repostCount" : "quoteCount";
+      await Post.updateOne({ _id: sharedPostId, [counter]: { $gt: 0 } }, { $inc: { [counter]: -1 } });
+      await emitShareCounts(sharedPostId.toString());
+    }
+
+    // 5d. Reposts have nothing to show without the original, so they go too;
+    // quotes keep their own content and show the original as unavailable
+    const reposts = await Post.find({ repostOf: postId }).select("_id").lean();
+    if (reposts.length > 0) {
+      await Post.deleteMany({ repostOf: postId });
+      reposts.forEach((repost) => emitSocketEvent("post_deleted", { postId: repost._id.toString() }));
+    }
+    await Post.updateMany({ quoteOf: postId }, { $set: { quoteOf: null, quotedPostDeleted: true } });
+
+    // 5e. Unpin it from the author's profile
+    await User.updateOne({ _id: userId, pinnedPost: postId }, { $set: { pinnedPost: null } });
 
-    // 7. Return Success Response
+    // 6. Delete the post's files from GridFS: attachments, a legacy single
+    // image and images replaced by edits (kept until now for the history)
+    const fileUrls = [
+      ...post.media.map((item) => item.url),
+      post.imageUrl,
+      ...(post.revisions ?? []).map((revision) => revision.imageUrl),
+    ];
+    const filenames = [...new Set(fileUrls.map(filenameFromUrl).filter((name) => name !== null))];
+    await deleteUploads(filenames, userId);
+
+    // 7. Broadcast the deletion to connected clients
+    emitSocketEvent("post_deleted", { postId });
+
+    // 8. Return Success Response
     return NextResponse.json(
       {
         success: true,
@@ -126,4 +118,108 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
   }
 }
 
-// Add other handlers (GET, PATCH) if they exist in this file
+// --- PATCH Handler: Edit a post's content and/or image ---
+// Body: { content?: string, imageUrl?: string | null } (null removes the image)
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Authenticate User
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+  const userId = token.id as string;
+
+  // 2. Validate Post ID
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return NextResponse.json({ success: false, message: "Invalid Post ID" }, { status: 400 });
+  }
+
+  try {
+    // 3. Validate Input
+    const { content, imageUrl } = await request.json();
+    if (content === undefined && imageUrl === undefined) {
+      return NextResponse.json({ success: false, message: "No changes provided" }, { status: 400 });
+    }
+    if (imageUrl !== undefined && imageUrl !== null && typeof imageUrl !== "string") {
+      return NextResponse.json({ success: false, message: "Invalid image URL" }, { status: 400 });
+    }
+
+    // 4. Find the Post
+    const post = await Post.findById(postId);
+    if (!post) {
+      return NextResponse.json({ success: false, message: "Post not found" }, { status: 404 });
+    }
+
+    // 5. Authorize Edit (author only, within the edit window)
+    if (post.author.toString() !== userId) {
+      return NextResponse.json({ success: false, message: "Forbidden: You can only edit your own posts" }, { status: 403 });
+    }
+    if (post.repostOf) {
+      return NextResponse.json({ success: false, message: "Reposts cannot be edited" }, { status: 400 });
+    }
+    if (!isWithinEditWindow(post.createdAt)) {
+      return NextResponse.json(
+        { success: false, message: `Posts can only be edited within ${POST_EDIT_WINDOW_MINUTES} minutes of posting` },
+        { status: 403 }
+      );
+    }
+
+    // 6. A new image must be one the author uploaded (keeping the current one needs no check)
+    let newImageUrl = post.imageUrl;
+    if (imageUrl !== undefined && imageUrl !== post.imageUrl) {
+      const resolvedImage = await resolveImageUrl(imageUrl, userId);
+      if ("error" in resolvedImage) {
+        return NextResponse.json({ success: false, message: resolvedImage.error }, { status: 400 });
+      }
+      newImageUrl = resolvedImage.imageUrl;
+    }
+
+    // Like when posting, only posts with attachments may leave the text empty
+    const editedContent = resolveEditedContent(post, content);
+    if ("error" in editedContent) {
+      return NextResponse.json({ success: false, message: editedContent.error }, { status: 400 });
+    }
+    const newContent = editedContent.content;
+    if (newContent === post.content && newImageUrl === post.imageUrl) {
+      return NextResponse.json({ success: false, message: "No changes provided" }, { status: 400 });
+    }
+
+    // 7. Store the current version as a revision, then apply the edit
+    // (no update validators: see buildEditUpdate)
+    const mentions = await resolveMentions(newContent);
+    await Post.updateOne(
+      { _id: postId },
+      buildEditUpdate(post, { content: newContent, imageUrl: newImageUrl, mentions, editedAt: new Date() })
+    );
+    console.log(`Post Edited: Post ${postId} edited by user ${userId}`);
+
+    const updatedPost = await Post.findById(postId).populate(POST_POPULATE).lean();
+
+    // 8. Push the new version to everyone viewing the post
+    emitSocketEvent("post_updated", updatedPost, postRoom(postId));
+
+    // 9. Tell only the users newly mentioned by the edit
+    await notifyMentions(mentions, userId, postId, post.mentions);
+
+    // 10. Re-fetch the link preview in the background if the text changed
+    if (newContent !== post.content) void refreshPostLinkPreview(postId, newContent);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Post updated successfully",
+        data: updatedPost,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Edit Post API: Error editing post ${postId}:`, error);
+    if (error instanceof mongoose.Error.ValidationError) {
+      const messages = Object.values(error.errors).map((err) => err.message);
+      return NextResponse.json({ success: false, message: messages.join(", ") }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: "Internal Server Error" }, { status: 500 });
+  }
+}
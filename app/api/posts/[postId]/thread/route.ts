@@ -0,0 +1,111 @@
+// app/api/posts/[postId]/thread/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import mongoose from "mongoose";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import { POST_POPULATE, withViewerState } from "@/lib/posts";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    postId: string;
+  };
+}
+
+// Stop walking up a reply chain after this many posts
+const MAX_ANCESTORS = 50;
+
+// --- GET Handler: A post with its ancestors and a page of its replies ---
+// Ancestors are ordered from the thread root down to the direct parent.
+// Replies are the post's direct replies, newest first; each carries its own
+// replyCount so clients can open deeper threads.
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { postId } = context.params;
+  await dbConnect();
+
+  // 1. Validate Post ID
+  if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+    return NextResponse.json(
+      { success: false, message: "Invalid Post ID" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // 2. Parse cursor pagination params (for the replies)
+    const url = new URL(request.url);
+    const limit = parseLimit(url.searchParams.get("limit"));
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Find the Post
+    const post = await Post.findById(postId).populate(POST_POPULATE).lean();
+    if (!post) {
+      return NextResponse.json(
+        { success: false, message: "Post not found" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Walk up the parent chain (stops early if an ancestor was deleted)
+    const ancestors = [];
+    let parentId = post.parent;
+    while (parentId && ancestors.length < MAX_ANCESTORS) {
+      const ancestor = await Post.findById(parentId).populate(POST_POPULATE).lean();
+      if (!ancestor) break;
+      ancestors.unshift(ancestor);
+      parentId = ancestor.parent;
+    }
+
+    // 5. Fetch one extra reply to know whether another page exists
+    const replies = await Post.find({
+      parent: post._id,
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .populate(POST_POPULATE)
+      .sort(cursorSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(replies, limit);
+
+    // 6. Add the viewer's own state to every post in the thread (one query)
+    const token = await getToken({ req: request, secret });
+    const [focused, ...rest] = await withViewerState(
+      [post, ...ancestors, ...page.items],
+      token?.id as string | undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Thread fetched successfully",
+        data: {
+          post: focused,
+          ancestors: rest.slice(0, ancestors.length),
+          replies: rest.slice(ancestors.length),
+        },
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Thread API: Error fetching thread for post ${postId}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,55 +2,97 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
 import dbConnect from "@/lib/dbConnect";
-import Post, { IPost, IComment } from "@/models/Post";
-import User, { IUser } from "@/models/User";
-// Removed Socket.IO imports as they are no longer used here
+import Post, { IPost } from "@/models/Post";
+import User from "@/models/User";
+import { emitSocketEvent, postRoom } from "@/lib/socketInstance";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import {
+  POST_POPULATE,
+  TOP_LEVEL_FILTER,
+  broadcastNewPost,
+  emitShareCounts,
+  resolveImageUrl,
+  resolveMedia,
+  resolveMentions,
+  withViewerState,
+} from "@/lib/posts";
+import { notify, notifyMentions } from "@/lib/notifications";
+import { extractHashtags } from "@/lib/hashtags";
+import { refreshPostLinkPreview } from "@/lib/linkPreview";
+import mongoose from "mongoose";
 
 const secret = process.env.NEXTAUTH_SECRET;
 
-// Define types for populated fields for clarity
-type PopulatedPostAuthor = Pick<IUser, "username" | "profilePicture">;
-type PopulatedCommentUser = Pick<IUser, "username" | "profilePicture">;
+// Timelines served by GET: "home" (the viewer and who they follow) or "all" (everyone)
+type FeedType = "home" | "all";
 
 // --- GET Handler (Complete) ---
 export async function GET(request: NextRequest) {
   await dbConnect();
 
   try {
-    // Basic pagination
+    // Cursor pagination: pass back pagination.nextCursor to get the next page
     const url = new URL(request.url);
-    const page = parseInt(url.searchParams.get("page") || "1");
-    const limit = parseInt(url.searchParams.get("limit") || "10");
-    const skip = (page - 1) * limit;
-
-    // Fetch posts, sorted by newest first
-    // Populate 'author' and nested 'comments.user'
-    const posts = await Post.find({})
-      .populate<{ author: PopulatedPostAuthor }>(
-        "author",
-        "username profilePicture"
-      )
-      .populate<{ comments: (IComment & { user: PopulatedCommentUser })[] }>({
-        path: "comments.user",
-        select: "username profilePicture",
-        model: User,
-      })
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limit)
+    const limit = parseLimit(url.searchParams.get("limit"));
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+    const feed = (url.searchParams.get("feed") || "all") as FeedType;
+
+    if (feed !== "home" && feed !== "all") {
+      return NextResponse.json(
+        { success: false, message: "Invalid feed type" },
+        { status: 400 }
+      );
+    }
+
+    // Home timeline: only posts by the viewer and the accounts they follow
+    const token = await getToken({ req: request, secret });
+    let filter: Record<string, unknown> = {};
+    if (feed === "home") {
+      if (!token || !token.id) {
+        return NextResponse.json(
+          { success: false, message: "Unauthorized" },
+          { status: 401 }
+        );
+      }
+      const viewer = await User.findById(token.id).select("following").lean();
+      if (!viewer) {
+        return NextResponse.json(
+          { success: false, message: "User not found" },
+          { status: 404 }
+        );
+      }
+      filter = { author: { $in: [viewer._id, ...viewer.following] } };
+    }
+
+    // Fetch one extra post to know whether another page exists, newest first
+    // Populate 'author'
+    const posts = await Post.find({
+      ...TOP_LEVEL_FILTER,
+      ...filter,
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .populate(POST_POPULATE)
+      .sort(cursorSort())
+      .limit(limit + 1)
       .lean();
 
-    const totalPosts = await Post.countDocuments();
+    const page = buildPage(posts, limit);
 
     return NextResponse.json(
       {
         success: true,
         message: "Posts fetched successfully",
-        data: posts,
+        data: await withViewerState(page.items, token?.id as string | undefined),
         pagination: {
-          currentPage: page,
-          totalPages: Math.ceil(totalPosts / limit),
-          totalPosts: totalPosts,
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
         },
       },
       { status: 200 }
@@ -64,7 +106,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// --- POST Handler: Create Post (Complete - Emit Removed) ---
+// --- POST Handler: Create Post (a reply when parentId is given, a quote when quoteOfId is) ---
 export async function POST(request: NextRequest) {
   await dbConnect();
 
@@ -80,11 +122,38 @@ export async function POST(request: NextRequest) {
   console.log("API /api/posts - User authenticated:", token.id);
 
   try {
-    const { content, imageUrl } = await request.json();
+    const { content = "", imageUrl, media: mediaInput, parentId, quoteOfId } = await request.json();
     const authorId = token.id as string;
 
-    // 2. Validate Input
-    if (!content || content.trim().length === 0) {
+    // 2. Validate Input (posts with attachments may leave the text empty)
+    if (typeof content !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Post content must be text" },
+        { status: 400 }
+      );
+    }
+    if (imageUrl && mediaInput) {
+      return NextResponse.json(
+        { success: false, message: "Send either imageUrl or media, not both" },
+        { status: 400 }
+      );
+    }
+    const resolvedImage = await resolveImageUrl(imageUrl, authorId);
+    if ("error" in resolvedImage) {
+      return NextResponse.json(
+        { success: false, message: resolvedImage.error },
+        { status: 400 }
+      );
+    }
+    const resolvedMedia = await resolveMedia(mediaInput, authorId);
+    if ("error" in resolvedMedia) {
+      return NextResponse.json(
+        { success: false, message: resolvedMedia.error },
+        { status: 400 }
+      );
+    }
+    const { media } = resolvedMedia;
+    if (content.trim().length === 0 && media.length === 0) {
       return NextResponse.json(
         { success: false, message: "Post content cannot be empty" },
         { status: 400 }
@@ -100,25 +169,69 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 3. Create New Post
+    // 3. Resolve the post being replied to, if any
+    let parent: IPost | null = null;
+    if (parentId !== undefined && parentId !== null) {
+      if (typeof parentId !== "string" || !mongoose.Types.ObjectId.isValid(parentId)) {
+        return NextResponse.json(
+          { success: false, message: "Invalid parent post ID" },
+          { status: 400 }
+        );
+      }
+      parent = await Post.findById(parentId).select("author root repostOf");
+      if (parent?.repostOf) {
+        // Replying to a repost replies to its original
+        parent = await Post.findById(parent.repostOf).select("author root repostOf");
+      }
+      if (!parent) {
+        return NextResponse.json(
+          { success: false, message: "Parent post not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // 3b. Resolve the quoted post, if any (quoting a repost quotes its original)
+    let quoted: IPost | null = null;
+    if (quoteOfId !== undefined && quoteOfId !== null) {
+      if (typeof quoteOfId !== "string" || !mongoose.Types.ObjectId.isValid(quoteOfId)) {
+        return NextResponse.json(
+          { success: false, message: "Invalid quoted post ID" },
+          { status: 400 }
+        );
+      }
+      quoted = await Post.findById(quoteOfId).select("author repostOf");
+      if (quoted?.repostOf) {
+        quoted = await Post.findById(quoted.repostOf).select("author repostOf");
+      }
+      if (!quoted) {
+        return NextResponse.json(
+          { success: false, message: "Quoted post not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // 4. Create New Post
     const newPost = new Post({
       author: authorId,
       content: content.trim(),
-      imageUrl: imageUrl || undefined,
-      likes: [],
-      comments: [],
+      hashtags: extractHashtags(content),
+      mentions: await resolveMentions(content),
+      imageUrl: resolvedImage.imageUrl,
+      media,
+      parent: parent?._id ?? null,
+      root: parent ? parent.root ?? parent._id : null,
+      quoteOf: quoted?._id ?? null,
     });
 
-    // 4. Save Post
+    // 5. Save Post
     await newPost.save();
-    console.log(`API /api/posts - Post created by ${authorId}`);
+    console.log(`API /api/posts - Post created by ${authorId}${parent ? ` in reply to ${parent._id}` : ""}`);
 
-    // 5. Populate author info for the response
+    // 6. Populate author (and the quoted post) for the response
     const populatedPost = await Post.findById(newPost._id)
-      .populate<{ author: PopulatedPostAuthor }>(
-        "author",
-        "username profilePicture"
-      )
+      .populate(POST_POPULATE)
       .lean();
 
     if (!populatedPost) {
@@ -126,7 +239,48 @@ export async function POST(request: NextRequest) {
       throw new Error("Failed to retrieve populated post after creation.");
     }
 
-    // --- Socket Emit Section REMOVED ---
+    // 7. Count the quote on the original and tell its author
+    if (quoted) {
+      const quotedPostId = quoted._id!.toString();
+      await Post.updateOne({ _id: quotedPostId }, { $inc: { quoteCount: 1 } });
+      await emitShareCounts(quotedPostId);
+      await notify({
+        recipientId: quoted.author.toString(),
+        actorId: authorId,
+        type: "quote",
+        postId: quotedPostId,
+      });
+    }
+
+    if (parent) {
+      // 8a. Replies only go to viewers of the parent post, not to timelines
+      const updatedParent = await Post.findByIdAndUpdate(
+        parent._id,
+        { $inc: { replyCount: 1 } },
+        { new: true }
+      ).select("replyCount");
+      const parentPostId = parent._id!.toString();
+      emitSocketEvent(
+        "reply_created",
+        { postId: parentPostId, reply: populatedPost, replyCount: updatedParent?.replyCount ?? 0 },
+        postRoom(parentPostId)
+      );
+      await notify({
+        recipientId: parent.author.toString(),
+        actorId: authorId,
+        type: "reply",
+        postId: parent._id as mongoose.Types.ObjectId,
+      });
+    } else {
+      // 8b. Broadcast to the Explore timeline and the home timelines of the author's followers
+      await broadcastNewPost(populatedPost, authorId);
+    }
+
+    // 9. Tell the users mentioned in the post
+    await notifyMentions(newPost.mentions, authorId, newPost._id as mongoose.Types.ObjectId);
+
+    // 10. Fetch the link preview in the background; it arrives via "link_preview_updated"
+    void refreshPostLinkPreview(newPost._id!.toString(), newPost.content);
 
     // Return success response
     return NextResponse.json(
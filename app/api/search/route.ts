@@ -0,0 +1,149 @@
+// app/api/search/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import mongoose, { Model } from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import User from "@/models/User";
+import { buildRankedPage, decodeScoreCursor, parseLimit, scoreCursorFilter } from "@/lib/pagination";
+import { POST_POPULATE, withViewerState } from "@/lib/posts";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+// "all" returns the top few of each kind; paging needs a single type
+const SEARCH_TYPES = ["all", "posts", "users"] as const;
+type SearchType = (typeof SEARCH_TYPES)[number];
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const ALL_RESULTS_LIMIT = 5; // Per kind, for the "all" tab
+
+type DecodedScoreCursor = NonNullable<ReturnType<typeof decodeScoreCursor>>;
+
+interface RankedId {
+  _id: mongoose.Types.ObjectId;
+  score: number;
+}
+
+/**
+ * One page of ids matching `query` in the model's text index, most relevant
+ * first. Ties on score are broken by _id so pages never overlap.
+ */
+async function rankedIds<T>(model: Model<T>, query: string, limit: number, cursor: DecodedScoreCursor | null) {
+  const ranked = await model.aggregate<RankedId>([
+    { $match: { $text: { $search: query } } }, // $text must be the first stage
+    { $addFields: { score: { $meta: "textScore" } } },
+    ...(cursor ? [{ $match: scoreCursorFilter(cursor) }] : []),
+    { $sort: { score: -1, _id: -1 } },
+    { $limit: limit + 1 },
+    { $project: { score: 1 } },
+  ]);
+  return buildRankedPage(ranked, limit);
+}
+
+// Load documents for ranked ids, keeping the ranking order
+function inRankOrder<T extends { _id: unknown }>(ranked: RankedId[], docs: T[]): T[] {
+  const byId = new Map(docs.map((doc) => [String(doc._id), doc]));
+  return ranked.map((r) => byId.get(r._id.toString())).filter((doc) => doc !== undefined);
+}
+
+async function searchPosts(query: string, limit: number, cursor: DecodedScoreCursor | null, viewerId?: string) {
+  const page = await rankedIds(Post, query, limit, cursor);
+  const posts = await Post.find({ _id: { $in: page.items.map((r) => r._id) } })
+    .populate(POST_POPULATE)
+    .lean();
+  return {
+    items: await withViewerState(inRankOrder(page.items, posts), viewerId),
+    pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore },
+  };
+}
+
+async function searchUsers(query: string, limit: number, cursor: DecodedScoreCursor | null, viewerId?: string) {
+  const page = await rankedIds(User, query, limit, cursor);
+  const [users, viewer] = await Promise.all([
+    User.find({ _id: { $in: page.items.map((r) => r._id) } })
+      .select("username name bio profilePicture followers")
+      .lean(),
+    viewerId ? User.findById(viewerId).select("following").lean() : null,
+  ]);
+  const following = new Set((viewer?.following ?? []).map((id) => id.toString()));
+
+  // Public profile fields only, like the profile endpoint
+  const items = inRankOrder(page.items, users).map((user) => ({
+    _id: user._id.toString(),
+    username: user.username,
+    name: user.name,
+    bio: user.bio,
+    profilePicture: user.profilePicture,
+    followersCount: user.followers?.length ?? 0,
+    isFollowing: following.has(user._id.toString()),
+    isViewer: user._id.toString() === viewerId,
+  }));
+  return { items, pagination: { nextCursor: page.nextCursor, hasMore: page.hasMore } };
+}
+
+// --- GET Handler: Search posts (content, hashtags) and users (username, name, bio) ---
+// Query: q, type ("all" | "posts" | "users", default "all"), limit, cursor (posts or users only)
+export async function GET(request: NextRequest) {
+  await dbConnect();
+
+  // 1. Validate the Query and Type
+  const url = new URL(request.url);
+  const query = (url.searchParams.get("q") ?? "").trim();
+  const type = (url.searchParams.get("type") ?? "all") as SearchType;
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { success: false, message: `Search terms must be ${MIN_QUERY_LENGTH}-${MAX_QUERY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  if (!SEARCH_TYPES.includes(type)) {
+    return NextResponse.json(
+      { success: false, message: `Search type must be one of: ${SEARCH_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  // 2. Parse cursor pagination params
+  const cursorParam = url.searchParams.get("cursor");
+  const cursor = decodeScoreCursor(cursorParam);
+  if (cursorParam && (!cursor || type === "all")) {
+    return NextResponse.json(
+      { success: false, message: "Invalid cursor" },
+      { status: 400 }
+    );
+  }
+  const limit = type === "all" ? ALL_RESULTS_LIMIT : parseLimit(url.searchParams.get("limit"));
+
+  try {
+    // 3. Run the searches for the requested type(s)
+    const token = await getToken({ req: request, secret });
+    const viewerId = token?.id as string | undefined;
+    const [posts, users] = await Promise.all([
+      type !== "users" ? searchPosts(query, limit, cursor, viewerId) : null,
+      type !== "posts" ? searchUsers(query, limit, cursor, viewerId) : null,
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Search results fetched successfully",
+        data: {
+          ...(posts && { posts: posts.items }),
+          ...(users && { users: users.items }),
+        },
+        pagination: {
+          ...(posts && { posts: posts.pagination }),
+          ...(users && { users: users.pagination }),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Search API: Error searching for "${query}":`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// app/api/tags/[tag]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import { POST_POPULATE, withViewerState } from "@/lib/posts";
+import { isValidHashtag, normalizeHashtag } from "@/lib/hashtags";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    tag: string;
+  };
+}
+
+// Params may arrive still percent-encoded for non-ASCII tags
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// --- GET Handler: A page of posts using a hashtag, newest first ---
+// Replies are included: a tag page gathers every post that used the tag.
+export async function GET(request: NextRequest, context: RouteContext) {
+  await dbConnect();
+
+  // 1. Validate the Tag ("#Café" and "café" both find "café")
+  const tag = normalizeHashtag(safeDecode(context.params.tag ?? ""));
+  if (!isValidHashtag(tag)) {
+    return NextResponse.json(
+      { success: false, message: "Invalid hashtag" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // 2. Parse cursor pagination params
+    const url = new URL(request.url);
+    const limit = parseLimit(url.searchParams.get("limit"));
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Fetch one extra post to know whether another page exists
+    const posts = await Post.find({
+      hashtags: tag,
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .populate(POST_POPULATE)
+      .sort(cursorSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(posts, limit);
+    const token = await getToken({ req: request, secret });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Tagged posts fetched successfully",
+        data: await withViewerState(page.items, token?.id as string | undefined),
+        tag,
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Tags API: Error fetching posts for #${tag}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+// app/api/tags/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import Post from "@/models/Post";
+import { parseLimit } from "@/lib/pagination";
+
+// Trending compares how many people used a tag in the most recent window with
+// how many usually do per window over the windows before it, so a tag that is
+// always busy does not crowd out one that is suddenly taking off.
+const TRENDING_WINDOW_HOURS = parseInt(process.env.TRENDING_WINDOW_HOURS || "6", 10);
+const TRENDING_BASELINE_WINDOWS = 4; // How many earlier windows make up the usual rate
+const TRENDING_MIN_USES = 2; // A single post is not a trend
+
+interface TagUsage {
+  _id: string;
+  current: number; // Uses in the latest window
+  authors: number; // Distinct authors in the latest window
+  baselineAuthors: number; // Distinct authors per baseline window, summed over those windows
+}
+
+// --- GET Handler: Trending hashtags, highest velocity first ---
+// Sliding window: it always ends now, so scores move as posts age out.
+export async function GET(request: NextRequest) {
+  await dbConnect();
+
+  try {
+    const limit = parseLimit(new URL(request.url).searchParams.get("limit"), 10, 20);
+    const windowMs = TRENDING_WINDOW_HOURS * 60 * 60 * 1000;
+    const windowStart = new Date(Date.now() - windowMs);
+    const baselineStart = new Date(windowStart.getTime() - TRENDING_BASELINE_WINDOWS * windowMs);
+
+    // 1. Count each tag's uses and distinct authors per window: -1 is the
+    // latest window, 0 to TRENDING_BASELINE_WINDOWS - 1 the baseline before it
+    const usage = await Post.aggregate<TagUsage>([
+      { $match: { createdAt: { $gte: baselineStart }, "hashtags.0": { $exists: true } } },
+      {
+        $project: {
+          hashtags: 1,
+          author: 1,
+          window: {
+            $cond: [
+              { $gte: ["$createdAt", windowStart] },
+              -1,
+              { $min: [TRENDING_BASELINE_WINDOWS - 1, { $floor: { $divide: [{ $subtract: [windowStart, "$createdAt"] }, windowMs] } }] },
+            ],
+          },
+        },
+      },
+      { $unwind: "$hashtags" },
+      { $group: { _id: { tag: "$hashtags", window: "$window", author: "$author" }, uses: { $sum: 1 } } },
+      { $group: { _id: { tag: "$_id.tag", window: "$_id.window" }, uses: { $sum: "$uses" }, authors: { $sum: 1 } } },
+      {
+        $group: {
+          _id: "$_id.tag",
+          current: { $sum: { $cond: [{ $eq: ["$_id.window", -1] }, "$uses", 0] } },
+          authors: { $sum: { $cond: [{ $eq: ["$_id.window", -1] }, "$authors", 0] } },
+          baselineAuthors: { $sum: { $cond: [{ $eq: ["$_id.window", -1] }, 0, "$authors"] } },
+        },
+      },
+      { $match: { current: { $gte: TRENDING_MIN_USES } } },
+    ]);
+
+    // 2. Velocity: distinct authors above the usual number per window. Counting
+    // authors on both sides keeps one account repeating a tag from trending it
+    // alone, or from burying it by having used it heavily before.
+    const trending = usage
+      .map((tag) => {
+        const usualAuthors = tag.baselineAuthors / TRENDING_BASELINE_WINDOWS;
+        return { tag: tag._id, count: tag.current, score: Math.round((tag.authors - usualAuthors) * 100) / 100 };
+      })
+      .filter((tag) => tag.score > 0)
+      .sort((a, b) => b.score - a.score || b.count - a.count)
+      .slice(0, limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Trending tags fetched successfully",
+        data: trending,
+        windowHours: TRENDING_WINDOW_HOURS,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Tags API: Error fetching trending tags:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getToken } from "next-auth/jwt";
 import dbConnect from "@/lib/dbConnect";
 import User from "@/models/User";
+import { notify, retractNotification } from "@/lib/notifications";
 import mongoose from "mongoose";
 
 const secret = process.env.NEXTAUTH_SECRET;
@@ -110,6 +111,18 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // Execute both updates concurrently
     await Promise.all([updateCurrentUser, updateTargetUser]);
 
+    // Notify the target user (or take the follow back out of their inbox)
+    const notificationEvent = {
+      recipientId: targetUser.id as string,
+      actorId: currentUserId,
+      type: "follow" as const,
+    };
+    if (isFollowing) {
+      await retractNotification(notificationEvent);
+    } else {
+      await notify(notificationEvent);
+    }
+
     // 8. Return success response
     return NextResponse.json(
       {
@@ -0,0 +1,89 @@
+// app/api/users/[username]/posts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import User from "@/models/User";
+import Post from "@/models/Post";
+import { buildPage, cursorFilter, cursorSort, decodeCursor, parseLimit } from "@/lib/pagination";
+import { POST_POPULATE, TOP_LEVEL_FILTER, pinnedPostFilter, withViewerState } from "@/lib/posts";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+interface RouteContext {
+  params: {
+    username: string;
+  };
+}
+
+// --- GET Handler: A page of the user's posts, newest first ---
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { username } = context.params;
+  await dbConnect();
+
+  if (!username) {
+    return NextResponse.json(
+      { success: false, message: "Username parameter is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // 1. Parse cursor pagination params
+    const url = new URL(request.url);
+    const limit = parseLimit(url.searchParams.get("limit"));
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = decodeCursor(cursorParam);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { success: false, message: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    // 2. Find the User by username (case-insensitive)
+    const user = await User.findOne({ username: username.toLowerCase() })
+      .select("_id pinnedPost")
+      .lean();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Fetch one extra post to know whether another page exists
+    // (the pinned post already leads the first page of the profile)
+    const posts = await Post.find({
+      author: user._id,
+      ...TOP_LEVEL_FILTER,
+      ...pinnedPostFilter(user.pinnedPost),
+      ...(cursor ? cursorFilter(cursor) : {}),
+    })
+      .populate(POST_POPULATE)
+      .sort(cursorSort())
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildPage(posts, limit);
+    const token = await getToken({ req: request, secret });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "User posts fetched successfully",
+        data: await withViewerState(page.items, token?.id as string | undefined),
+        pagination: {
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error fetching posts for ${username}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,13 @@
 // app/api/users/[username]/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
 import dbConnect from "@/lib/dbConnect";
-import User, { IUser } from "@/models/User";
-import Post, { IPost } from "@/models/Post"; // Import Post and IPost
-import mongoose from "mongoose";
+import User from "@/models/User";
+import Post from "@/models/Post";
+import { buildPage, cursorSort, parseLimit } from "@/lib/pagination";
+import { POST_POPULATE, TOP_LEVEL_FILTER, pinnedPostFilter, withViewerState } from "@/lib/posts";
 
-// Define types for populated fields for clarity
-type PopulatedPostAuthor = Pick<IUser, "username" | "profilePicture">;
-type PopulatedCommentUser = Pick<IUser, "username" | "profilePicture">;
+const secret = process.env.NEXTAUTH_SECRET;
 
 interface RouteContext {
   params: {
@@ -39,21 +39,24 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // 2. Fetch the User's Posts
-    // Basic pagination for posts (optional, add later if needed)
-    const userPosts = await Post.find({ author: user._id }) // Find posts by this user's ID
-      .populate<{ author: PopulatedPostAuthor }>(
-        "author",
-        "username profilePicture"
-      )
-      .populate<{ comments: (IComment & { user: PopulatedCommentUser })[] }>({
-        path: "comments.user",
-        select: "username profilePicture",
-        model: User,
-      })
-      .sort({ createdAt: -1 })
-      .limit(20) // Limit the number of posts initially loaded
-      .lean();
+    // 2. Fetch the pinned post and the first page of the User's other Posts
+    // Later pages come from /api/users/[username]/posts with postsPagination.nextCursor
+    const limit = parseLimit(new URL(request.url).searchParams.get("limit"));
+    const [pinnedPost, userPosts, postsCount] = await Promise.all([
+      user.pinnedPost
+        ? Post.findOne({ _id: user.pinnedPost, author: user._id }).populate(POST_POPULATE).lean()
+        : null,
+      Post.find({ author: user._id, ...TOP_LEVEL_FILTER, ...pinnedPostFilter(user.pinnedPost) }) // Find posts by this user's ID
+        .populate(POST_POPULATE)
+        .sort(cursorSort())
+        .limit(limit + 1) // One extra to know whether there is another page
+        .lean(),
+      Post.countDocuments({ author: user._id, ...TOP_LEVEL_FILTER }),
+    ]);
+    const postsPage = buildPage(userPosts, limit);
+    const token = await getToken({ req: request, secret });
+    const viewerId = token?.id as string | undefined;
+    const posts = await withViewerState(pinnedPost ? [pinnedPost, ...postsPage.items] : postsPage.items, viewerId);
 
     // 3. Prepare the response data
     // Exclude sensitive fields like email if not needed on public profile
@@ -66,7 +69,13 @@ export async function GET(request: NextRequest, context: RouteContext) {
       followersCount: user.followers?.length ?? 0,
       followingCount: user.following?.length ?? 0,
       createdAt: user.createdAt,
-      posts: userPosts, // Include the user's posts
+      postsCount,
+      // Include the first page of the user's posts, led by the pinned one
+      posts: pinnedPost ? [{ ...posts[0], isPinned: true }, ...posts.slice(1)] : posts,
+      postsPagination: {
+        nextCursor: postsPage.nextCursor,
+        hasMore: postsPage.hasMore,
+      },
     };
 
     return NextResponse.json(
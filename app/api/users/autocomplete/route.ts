@@ -0,0 +1,67 @@
+// app/api/users/autocomplete/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import dbConnect from "@/lib/dbConnect";
+import User from "@/models/User";
+import { parseLimit } from "@/lib/pagination";
+
+const secret = process.env.NEXTAUTH_SECRET;
+
+// Escape regex metacharacters so the query is matched literally
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// --- GET Handler: Users whose username starts with ?q=, for @mention autocomplete ---
+export async function GET(request: NextRequest) {
+  await dbConnect();
+
+  // 1. Authenticate User (only signed-in users can compose)
+  const token = await getToken({ req: request, secret });
+  if (!token || !token.id) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  // 2. Validate the Query (usernames are stored lower-cased)
+  const url = new URL(request.url);
+  const query = (url.searchParams.get("q") ?? "").trim().replace(/^@/, "").toLowerCase();
+  const limit = parseLimit(url.searchParams.get("limit"), 8, 20);
+  if (!query) {
+    return NextResponse.json(
+      { success: true, message: "Users fetched successfully", data: [] },
+      { status: 200 }
+    );
+  }
+
+  try {
+    // 3. Anchored prefix match, so the username index is used
+    const users = await User.find({ username: { $regex: `^${escapeRegex(query)}` } })
+      .select("username name profilePicture")
+      .sort({ username: 1 })
+      .limit(limit)
+      .lean();
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Users fetched successfully",
+        data: users.map((user) => ({
+          _id: user._id.toString(),
+          username: user.username,
+          name: user.name,
+          profilePicture: user.profilePicture,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Autocomplete API: Error searching users for "${query}":`, error);
+    return NextResponse.json(
+      { success: false, message: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
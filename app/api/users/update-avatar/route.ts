@@ -4,50 +4,11 @@ import { getToken } from "next-auth/jwt";
 import dbConnect from "@/lib/dbConnect"; // Keep for Mongoose User model
 import User from "@/models/User";
 import mongoose from "mongoose";
-import { GridFSBucket, MongoClient, Db } from "mongodb";
-import crypto from "crypto";
-import path from "path";
-import { Readable } from "stream";
+import { FILE_URL_PREFIX, storeImage } from "@/lib/gridfs";
+import { processImage } from "@/lib/images";
+import { validateImageUpload } from "@/lib/fileType";
 
 const secret = process.env.NEXTAUTH_SECRET;
-const MONGODB_URI = process.env.MONGODB_URI;
-
-if (!MONGODB_URI) {
-  throw new Error(
-    "Please define the MONGODB_URI environment variable inside .env.local"
-  );
-}
-
-// --- Database Connection Caching (Use the same pattern) ---
-let clientPromise: Promise<MongoClient> | null = null;
-
-async function getDb(): Promise<Db> {
-  if (!clientPromise) {
-    console.log("Avatar Upload: Creating new MongoClient promise");
-    const client = new MongoClient(MONGODB_URI!);
-    clientPromise = client.connect().catch((err) => {
-      clientPromise = null;
-      console.error("Avatar Upload: Initial connection failed", err);
-      throw err;
-    });
-  } else {
-    // console.log("Avatar Upload: Reusing existing MongoClient promise");
-  }
-
-  try {
-    const client = await clientPromise;
-    const url = new URL(MONGODB_URI!);
-    const dbNameFromUri = url.pathname.substring(1).split("?")[0];
-    const dbName = dbNameFromUri || "test";
-    // console.log(`Avatar Upload: Using DB: ${dbName}`);
-    return client.db(dbName);
-  } catch (error) {
-    console.error("❌ Avatar Upload: Failed to get DB instance:", error);
-    clientPromise = null;
-    throw error;
-  }
-}
-// --- End Database Connection Caching ---
 
 // --- POST Handler ---
 export async function POST(request: NextRequest) {
@@ -62,9 +23,6 @@ export async function POST(request: NextRequest) {
   const userId = token.id as string;
 
   try {
-    const database = await getDb(); // Use the improved connection helper for GridFS
-    const bucket = new GridFSBucket(database, { bucketName: "uploads" });
-
     // 2. Parse FormData
     const formData = await request.formData();
     const file = formData.get("avatar") as File | null;
@@ -75,48 +33,36 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    if (!file.type.startsWith("image/")) {
+    if (file.size > 10 * 1024 * 1024) { // 10MB limit example
       return NextResponse.json(
-        { success: false, message: "Invalid file type. Only images allowed." },
+        { success: false, message: "File size exceeds 10MB limit." },
         { status: 400 }
       );
     }
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit example
+    // Trust the bytes, not the type the client sent
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const detected = validateImageUpload(fileBuffer, file.type);
+    if ("error" in detected) {
       return NextResponse.json(
-        { success: false, message: "File size exceeds 10MB limit." },
+        { success: false, message: detected.error },
         { status: 400 }
       );
     }
 
-    // 3. Prepare file data for GridFS
-    const filename =
-      crypto.randomBytes(16).toString("hex") + path.extname(file.name);
-    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    // 3. Decode and re-encode: orientation applied, metadata stripped, renditions made
+    const image = await processImage(fileBuffer, detected.format);
+    if ("error" in image) {
+      return NextResponse.json(
+        { success: false, message: image.error },
+        { status: 400 }
+      );
+    }
 
-    // 4. Stream Buffer to GridFS
-    const uploadStream = bucket.openUploadStream(filename, {
-      contentType: file.type,
-      metadata: { userId: userId },
-    });
-    await new Promise<void>((resolve, reject) => {
-      const readableStream = new Readable();
-      readableStream._read = () => {};
-      readableStream.push(fileBuffer);
-      readableStream.push(null);
-      readableStream
-        .pipe(uploadStream)
-        .on("error", (error) => {
-          console.error("GridFS upload stream error:", error);
-          reject(new Error("Failed to upload file to storage."));
-        })
-        .on("finish", () => {
-          console.log(`GridFS: File ${filename} uploaded successfully.`);
-          resolve();
-        });
-    });
+    // 4. Store the original and its renditions in GridFS
+    const filename = await storeImage(image, userId);
 
-    // 5. Construct the URL
-    const fileUrl = `/api/files/${filename}`;
+    // 5. Construct the URL (avatars are shown small, so use the thumbnail when there is one)
+    const fileUrl = `${FILE_URL_PREFIX}${filename}${image.renditions.thumb ? "?variant=thumb" : ""}`;
 
     // 6. Update User's profilePicture URL (Use Mongoose connection here)
     await dbConnect(); // Connect Mongoose
@@ -145,10 +91,10 @@ export async function POST(request: NextRequest) {
       },
       { status: 200 }
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error(`Avatar Upload API: Error for user ${userId}:`, error);
     return NextResponse.json(
-      { success: false, message: error.message || "Internal Server Error during upload" },
+      { success: false, message: "Internal Server Error" },
       { status: 500 }
     );
   }
@@ -0,0 +1,129 @@
+// app/bookmarks/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import axios from "axios";
+import PostItem from "@/components/PostItem";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { PopulatedPost } from "@/components/Feed";
+import { useSocket } from "@/context/SocketContext";
+
+// The signed-in user's saved posts, most recently saved first. Only they can see this page.
+export default function BookmarksPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const { socket, isConnected } = useSocket();
+
+  const [posts, setPosts] = useState<PopulatedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Redirect signed-out visitors to login
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login");
+    }
+  }, [status, router]);
+
+  // Fetch the first page of bookmarks, or the page after `cursor`
+  const fetchBookmarks = useCallback(async (cursor: string | null = null) => {
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
+    setError(null);
+
+    try {
+      const response = await axios.get("/api/bookmarks", {
+        params: cursor ? { cursor } : {},
+      });
+      if (response.data.success) {
+        const page = response.data.data as PopulatedPost[];
+        setPosts((prevPosts) => {
+          if (!cursor) return page;
+          const seen = new Set(prevPosts.map((post) => post._id));
+          return [...prevPosts, ...page.filter((post) => !seen.has(post._id))];
+        });
+        setNextCursor(response.data.pagination.nextCursor);
+        setHasMore(response.data.pagination.hasMore);
+      } else {
+        setError(response.data.message || "Failed to load bookmarks.");
+      }
+    } catch (err) {
+      console.error("BookmarksPage: Error fetching bookmarks:", err);
+      setError("An error occurred while loading your bookmarks.");
+      setHasMore(false); // Stop the sentinel from retrying in a loop
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      fetchBookmarks();
+    }
+  }, [status, fetchBookmarks]);
+
+  const loadMoreBookmarks = useCallback(() => {
+    if (nextCursor && !isLoadingMore) fetchBookmarks(nextCursor);
+  }, [nextCursor, isLoadingMore, fetchBookmarks]);
+
+  // Saved posts deleted by their authors disappear live
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const handlePostDeleted = (data: { postId: string }) => {
+      setPosts((prevPosts) => prevPosts.filter((post) => post._id !== data.postId));
+    };
+    socket.on("post_deleted", handlePostDeleted);
+    return () => {
+      socket.off("post_deleted", handlePostDeleted);
+    };
+  }, [socket, isConnected]);
+
+  if (status === "loading" || (status === "authenticated" && isLoading)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <p className="text-lg text-gray-600">Loading bookmarks...</p>
+      </div>
+    );
+  }
+
+  if (status !== "authenticated") {
+    return null;
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center bg-gray-50 p-4 pt-8">
+      <main className="mt-16 w-full max-w-2xl">
+        <h1 className="mb-6 text-2xl font-bold text-gray-900">Bookmarks</h1>
+        {error && posts.length === 0 ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-center text-red-700">{error}</div>
+        ) : posts.length > 0 ? (
+          posts.map((post) => (
+            <PostItem
+              key={post._id}
+              post={post}
+              onPostDeleted={() => setPosts((prev) => prev.filter((p) => p._id !== post._id))}
+            />
+          ))
+        ) : (
+          <p className="rounded-lg border border-gray-200 bg-white p-6 text-center text-gray-500 shadow-sm">
+            You haven&apos;t bookmarked any posts yet.
+          </p>
+        )}
+        <InfiniteScrollTrigger
+          onLoadMore={loadMoreBookmarks}
+          hasMore={hasMore}
+          isLoading={isLoadingMore}
+        />
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import SessionProviderWrapper from "@/components/SessionProviderWrapper";
 import { SocketProvider } from "@/context/SocketContext"; // Import SocketProvider
+import AppHeader from "@/components/AppHeader";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -20,11 +21,14 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        {/* SessionProvider should ideally be inside SocketProvider if socket needs session */}
-        {/* Or vice-versa depending on dependencies. Let's try Socket -> Session */}
-        <SocketProvider>
-          <SessionProviderWrapper>{children}</SessionProviderWrapper>
-        </SocketProvider>
+        {/* SocketProvider reads the session to authenticate its connection, */}
+        {/* so it must live inside SessionProvider */}
+        <SessionProviderWrapper>
+          <SocketProvider>
+            <AppHeader />
+            {children}
+          </SocketProvider>
+        </SessionProviderWrapper>
       </body>
     </html>
   );
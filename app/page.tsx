@@ -1,15 +1,17 @@
 // app/page.tsx
 "use client";
 
-import { useSession, signOut } from "next-auth/react";
+import { useSession } from "next-auth/react";
 import Link from "next/link";
 import { useState, useCallback } from "react";
 import CreatePostForm from "@/components/CreatePostForm";
-import Feed from "@/components/Feed";
+import Feed, { FeedType } from "@/components/Feed";
+import TrendingTags from "@/components/TrendingTags";
 
 export default function HomePage() {
   const { data: session, status } = useSession();
   const [feedKey, setFeedKey] = useState(0);
+  const [feedType, setFeedType] = useState<FeedType>("home"); // Survives the remount below
 
   // Callback to trigger feed refresh by updating the key
   const refreshFeed = useCallback(() => {
@@ -26,33 +28,9 @@ export default function HomePage() {
     );
   }
 
-  const handleLogout = async () => {
-    await signOut({ callbackUrl: "/login" });
-  };
-
   return (
     <div className="flex min-h-screen flex-col items-center bg-gray-50 p-4 pt-8">
-      {/* Header/Nav Placeholder */}
-      <header className="fixed left-0 right-0 top-0 z-10 mb-6 w-full border-b border-gray-200 bg-white shadow-sm">
-        <div className="mx-auto flex max-w-4xl items-center justify-between p-3">
-          <h1 className="text-xl font-bold text-indigo-600">
-            Fancy Social
-          </h1>
-          {status === "authenticated" && session?.user && (
-            <div className="flex items-center space-x-4">
-              <span className="text-sm text-gray-700">
-                Hi, {session.user.username || session.user.name}!
-              </span>
-              <button
-                onClick={handleLogout}
-                className="rounded bg-red-500 px-3 py-1 text-xs font-medium text-white shadow-sm hover:bg-red-600"
-              >
-                Logout
-              </button>
-            </div>
-          )}
-        </div>
-      </header>
+      {/* Header is rendered by AppHeader in the root layout */}
 
       {/* Main Content Area */}
       <main className="mt-16 w-full max-w-2xl">
@@ -60,9 +38,10 @@ export default function HomePage() {
           // --- User is Logged In ---
           <div>
             <CreatePostForm onPostCreated={refreshFeed} />
+            <TrendingTags />
 
             {/* --- Pass refreshFeed to Feed --- */}
-            <Feed key={feedKey} refreshFeed={refreshFeed} />
+            <Feed key={feedKey} refreshFeed={refreshFeed} feedType={feedType} onFeedTypeChange={setFeedType} />
             {/* --- End Pass --- */}
           </div>
         ) : (
@@ -0,0 +1,170 @@
+// app/posts/[postId]/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import axios from "axios";
+import PostItem from "@/components/PostItem";
+import CreatePostForm from "@/components/CreatePostForm";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { PopulatedPost } from "@/components/Feed";
+import { useSocket } from "@/context/SocketContext";
+
+// Thread view: the ancestors of a post, the post itself, a reply box and its replies
+export default function ThreadPage() {
+  const params = useParams();
+  const postId = params.postId as string;
+  const router = useRouter();
+  const { status } = useSession();
+  const { socket, isConnected } = useSocket();
+
+  const [post, setPost] = useState<PopulatedPost | null>(null);
+  const [ancestors, setAncestors] = useState<PopulatedPost[]>([]);
+  const [replies, setReplies] = useState<PopulatedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the thread, or the page of replies after `cursor`
+  const fetchThread = useCallback(
+    async (cursor: string | null = null) => {
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
+      setError(null);
+
+      try {
+        const response = await axios.get(`/api/posts/${postId}/thread`, {
+          params: cursor ? { cursor } : {},
+        });
+        if (response.data.success) {
+          const { post: fetchedPost, ancestors: fetchedAncestors, replies: page } = response.data.data;
+          if (cursor) {
+            setReplies((prevReplies) => {
+              const seen = new Set(prevReplies.map((r) => r._id));
+              return [...prevReplies, ...(page as PopulatedPost[]).filter((r) => !seen.has(r._id))];
+            });
+          } else {
+            setPost(fetchedPost);
+            setAncestors(fetchedAncestors);
+            setReplies(page);
+          }
+          setNextCursor(response.data.pagination.nextCursor);
+          setHasMore(response.data.pagination.hasMore);
+        } else {
+          setError(response.data.message || "Failed to load thread.");
+        }
+      } catch (err) {
+        console.error(`ThreadPage (${postId}): Error fetching thread:`, err);
+        if (axios.isAxiosError(err) && err.response?.status === 404) {
+          setError("This post doesn't exist or has been deleted.");
+        } else {
+          setError("An error occurred while loading the thread.");
+        }
+        setHasMore(false); // Stop the sentinel from retrying in a loop
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [postId]
+  );
+
+  useEffect(() => {
+    fetchThread();
+  }, [fetchThread]);
+
+  const loadMoreReplies = useCallback(() => {
+    if (nextCursor && !isLoadingMore) fetchThread(nextCursor);
+  }, [nextCursor, isLoadingMore, fetchThread]);
+
+  // Add a reply once, whether it came from our own form or the socket
+  const addReply = useCallback((reply: PopulatedPost) => {
+    setReplies((prevReplies) =>
+      prevReplies.some((r) => r._id === reply._id) ? prevReplies : [reply, ...prevReplies]
+    );
+  }, []);
+
+  // Live replies (PostItem for the focused post keeps us in its room)
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const handleReplyCreated = (data: { postId: string; reply: PopulatedPost }) => {
+      if (data.postId === postId) addReply(data.reply);
+    };
+    const handlePostDeleted = (data: { postId: string }) => {
+      setReplies((prevReplies) => prevReplies.filter((r) => r._id !== data.postId));
+    };
+    socket.on("reply_created", handleReplyCreated);
+    socket.on("post_deleted", handlePostDeleted);
+    return () => {
+      socket.off("reply_created", handleReplyCreated);
+      socket.off("post_deleted", handlePostDeleted);
+    };
+  }, [socket, isConnected, postId, addReply]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <p className="text-lg text-gray-600">Loading thread...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center bg-gray-50 p-4 pt-8">
+      <main className="mt-16 w-full max-w-2xl">
+        {error || !post ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-center text-red-700">
+            {error || "Post not found."}
+          </div>
+        ) : (
+          <>
+            {/* Ancestors, from the thread root down to the parent */}
+            {ancestors.length > 0 && (
+              <div className="border-l-2 border-indigo-100 pl-3">
+                {ancestors.map((ancestor) => (
+                  <PostItem key={ancestor._id} post={ancestor} onPostDeleted={() => fetchThread()} />
+                ))}
+              </div>
+            )}
+
+            {/* The focused post */}
+            <div className="rounded-lg ring-2 ring-indigo-200">
+              <PostItem key={post._id} post={post} onPostDeleted={() => router.push("/")} />
+            </div>
+
+            {status === "authenticated" && (
+              <CreatePostForm parentId={post._id} onPostCreated={addReply} />
+            )}
+
+            {/* Direct replies, newest first */}
+            <h2 className="mb-4 text-lg font-semibold text-gray-800">Replies</h2>
+            {replies.length > 0 ? (
+              replies.map((reply) => (
+                <PostItem
+                  key={reply._id}
+                  post={reply}
+                  onPostDeleted={() => setReplies((prev) => prev.filter((r) => r._id !== reply._id))}
+                />
+              ))
+            ) : (
+              <p className="rounded-lg border border-gray-200 bg-white p-6 text-center text-gray-500 shadow-sm">
+                No replies yet.
+              </p>
+            )}
+            <InfiniteScrollTrigger
+              onLoadMore={loadMoreReplies}
+              hasMore={hasMore}
+              isLoading={isLoadingMore}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -6,8 +6,8 @@ import { useParams } from "next/navigation";
 import axios from "axios";
 import Image from "next/image";
 import PostItem from "@/components/PostItem";
-import { IPost } from "@/models/Post";
-import { PopulatedUser, PopulatedComment } from "@/components/PostItem";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { PostData } from "@/components/PostItem";
 import { useSession } from "next-auth/react";
 
 // --- Edit Profile Modal Component ---
@@ -152,15 +152,15 @@ interface ProfileData {
   followersCount: number;
   followingCount: number;
   createdAt: string;
+  postsCount: number;
   posts: ProfilePost[];
+  postsPagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
 }
 
-type ProfilePost = Omit<IPost, "author" | "likes" | "comments"> & {
-  _id: string;
-  author: PopulatedUser;
-  likes: string[];
-  comments: PopulatedComment[];
-};
+type ProfilePost = PostData;
 
 
 export default function ProfilePage() {
@@ -183,6 +183,8 @@ export default function ProfilePage() {
 
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 
+  const [isLoadingMorePosts, setIsLoadingMorePosts] = useState(false);
+
 
   const fetchProfile = useCallback(async () => {
      if (!username) {
@@ -219,6 +221,56 @@ export default function ProfilePage() {
     fetchProfile();
   }, [fetchProfile]);
 
+  // Reload the posts (pinned one first) without blanking the page,
+  // e.g. after the owner pins, unpins or deletes a post
+  const refreshPosts = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/users/${username}`);
+      if (response.data.success) {
+        const { posts, postsCount, postsPagination } = response.data.data as ProfileData;
+        setProfile((prevProfile) =>
+          prevProfile ? { ...prevProfile, posts, postsCount, postsPagination } : null
+        );
+      }
+    } catch (err) {
+      console.error("Error refreshing posts:", err);
+    }
+  }, [username]);
+
+  // Infinite scroll: fetch the page after the last loaded post
+  const loadMorePosts = useCallback(async () => {
+    const cursor = profile?.postsPagination.nextCursor;
+    if (!cursor || isLoadingMorePosts) return;
+    setIsLoadingMorePosts(true);
+    try {
+      const response = await axios.get(`/api/users/${username}/posts`, {
+        params: { cursor },
+      });
+      if (response.data.success) {
+        const newPosts = response.data.data as ProfilePost[];
+        setProfile((prevProfile) =>
+          prevProfile
+            ? {
+                ...prevProfile,
+                posts: [...prevProfile.posts, ...newPosts],
+                postsPagination: response.data.pagination,
+              }
+            : null
+        );
+      }
+    } catch (err) {
+      console.error("Error loading more posts:", err);
+      // Stop the sentinel from retrying in a loop
+      setProfile((prevProfile) =>
+        prevProfile
+          ? { ...prevProfile, postsPagination: { nextCursor: null, hasMore: false } }
+          : null
+      );
+    } finally {
+      setIsLoadingMorePosts(false);
+    }
+  }, [profile?.postsPagination.nextCursor, isLoadingMorePosts, username]);
+
   const handleFollowToggle = async () => {
      if (!currentUserId || isFollowLoading || !profile) {
       if (!currentUserId) console.log("Please log in to follow users.");
@@ -420,7 +472,7 @@ export default function ProfilePage() {
                 )}
 
                 <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
-                     <span><span className="font-semibold text-gray-900">{profile.posts?.length ?? 0}</span> Posts</span>
+                     <span><span className="font-semibold text-gray-900">{profile.postsCount ?? 0}</span> Posts</span>
                     <span><span className="font-semibold text-gray-900">{localFollowersCount}</span> Followers</span>
                     <span><span className="font-semibold text-gray-900">{profile.followingCount}</span> Following</span>
                 </div>
@@ -441,7 +493,12 @@ export default function ProfilePage() {
           <div className="space-y-4">
              {profile.posts && profile.posts.length > 0 ? (
                 profile.posts.map((post) => (
-                <PostItem key={post._id} post={post as any} />
+                <PostItem
+                  key={post._id}
+                  post={post}
+                  onPostDeleted={refreshPosts}
+                  onPinChange={refreshPosts}
+                />
                 ))
             ) : (
                 <div className="rounded-lg border border-gray-200 bg-white p-6 text-center text-gray-500 shadow-sm">
@@ -449,6 +506,13 @@ export default function ProfilePage() {
                 </div>
             )}
           </div>
+          {profile.postsPagination?.hasMore && (
+            <InfiniteScrollTrigger
+              onLoadMore={loadMorePosts}
+              hasMore={profile.postsPagination.hasMore}
+              isLoading={isLoadingMorePosts}
+            />
+          )}
         </div>
       </div>
 
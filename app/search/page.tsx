@@ -0,0 +1,285 @@
+// app/search/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, Suspense, FormEvent } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import axios from "axios";
+import Image from "next/image";
+import Link from "next/link";
+import PostItem from "@/components/PostItem";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { PopulatedPost } from "@/components/Feed";
+
+type SearchTab = "all" | "posts" | "users";
+
+const SEARCH_TABS: { type: SearchTab; label: string }[] = [
+  { type: "all", label: "Top" },
+  { type: "posts", label: "Posts" },
+  { type: "users", label: "People" },
+];
+
+interface UserResult {
+  _id: string;
+  username: string;
+  name?: string;
+  bio?: string;
+  profilePicture?: string;
+  followersCount: number;
+  isFollowing: boolean;
+  isViewer: boolean;
+}
+
+interface Paging {
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const NO_MORE: Paging = { nextCursor: null, hasMore: false };
+
+// One person in the results, with an inline follow button like the reactions list
+const UserResultItem: React.FC<{ user: UserResult; canFollow: boolean; onToggleFollow: (user: UserResult) => void }> = ({
+  user,
+  canFollow,
+  onToggleFollow,
+}) => (
+  <li className="flex items-center space-x-3 px-4 py-3">
+    <Image
+      src={user.profilePicture ?? "/default-avatar.png"}
+      alt={`${user.username}'s avatar`}
+      width={40}
+      height={40}
+      className="h-10 w-10 flex-shrink-0 rounded-full object-cover"
+      unoptimized
+    />
+    <Link href={`/profile/${user.username}`} className="min-w-0 flex-1 hover:underline">
+      <p className="truncate text-sm font-semibold text-gray-900">{user.name || user.username}</p>
+      <p className="truncate text-xs text-gray-500">@{user.username} · {user.followersCount} followers</p>
+      {user.bio && <p className="mt-0.5 truncate text-xs text-gray-600">{user.bio}</p>}
+    </Link>
+    {canFollow && !user.isViewer && (
+      <button
+        onClick={() => onToggleFollow(user)}
+        className={`rounded-md px-3 py-1 text-xs font-semibold shadow-sm ${
+          user.isFollowing
+            ? "border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            : "bg-indigo-600 text-white hover:bg-indigo-700"
+        }`}
+      >
+        {user.isFollowing ? "Unfollow" : "Follow"}
+      </button>
+    )}
+  </li>
+);
+
+// Search results for ?q=, with tabs for everything, posts only and people only
+function SearchResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { status } = useSession();
+  const query = searchParams.get("q")?.trim() ?? "";
+  const tab = (searchParams.get("type") as SearchTab) || "all";
+
+  const [input, setInput] = useState(query);
+  const [posts, setPosts] = useState<PopulatedPost[]>([]);
+  const [users, setUsers] = useState<UserResult[]>([]);
+  const [paging, setPaging] = useState<{ posts: Paging; users: Paging }>({ posts: NO_MORE, users: NO_MORE });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  // Fetch the first page of results, or the page after `cursor` (posts or people tab only)
+  const fetchResults = useCallback(
+    async (cursor: string | null = null) => {
+      if (query.length < 2) {
+        setPosts([]);
+        setUsers([]);
+        setPaging({ posts: NO_MORE, users: NO_MORE });
+        return;
+      }
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
+      setError(null);
+
+      try {
+        const response = await axios.get("/api/search", {
+          params: { q: query, type: tab, ...(cursor && { cursor }) },
+        });
+        if (response.data.success) {
+          const { data, pagination } = response.data;
+          if (data.posts) setPosts((prev) => (cursor ? [...prev, ...data.posts] : data.posts));
+          if (data.users) setUsers((prev) => (cursor ? [...prev, ...data.users] : data.users));
+          if (!cursor) {
+            if (!data.posts) setPosts([]);
+            if (!data.users) setUsers([]);
+          }
+          setPaging({ posts: pagination.posts ?? NO_MORE, users: pagination.users ?? NO_MORE });
+        } else {
+          setError(response.data.message || "Search failed.");
+        }
+      } catch (err) {
+        console.error(`SearchPage: Error searching for "${query}":`, err);
+        if (axios.isAxiosError(err) && err.response?.data?.message) {
+          setError(err.response.data.message);
+        } else {
+          setError("An error occurred while searching.");
+        }
+        setPaging({ posts: NO_MORE, users: NO_MORE }); // Stop the sentinel from retrying in a loop
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [query, tab]
+  );
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  // Only one kind pages at a time (the "Top" tab shows a fixed few of each)
+  const activePaging = tab === "posts" ? paging.posts : tab === "users" ? paging.users : NO_MORE;
+  const loadMore = useCallback(() => {
+    if (activePaging.nextCursor && !isLoadingMore) fetchResults(activePaging.nextCursor);
+  }, [activePaging.nextCursor, isLoadingMore, fetchResults]);
+
+  const navigate = (q: string, type: SearchTab) => {
+    const params = new URLSearchParams({ q });
+    if (type !== "all") params.set("type", type);
+    router.push(`/search?${params.toString()}`);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) navigate(input.trim(), tab);
+  };
+
+  // Toggle following with an optimistic update, like the reactions list
+  const handleFollowToggle = async (user: UserResult) => {
+    const toggle = (u: UserResult) => (u._id === user._id ? { ...u, isFollowing: !u.isFollowing } : u);
+    setUsers((prev) => prev.map(toggle));
+    try {
+      const response = await axios.post(`/api/users/${user.username}/follow`);
+      if (!response.data.success) {
+        console.error("Failed to follow/unfollow:", response.data.message);
+        setUsers((prev) => prev.map(toggle));
+      }
+    } catch (err) {
+      console.error("Error calling follow API:", err);
+      setUsers((prev) => prev.map(toggle));
+    }
+  };
+
+  const showPosts = tab !== "users";
+  const showUsers = tab !== "posts";
+  const hasResults = posts.length > 0 || users.length > 0;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center bg-gray-50 p-4 pt-8">
+      <main className="mt-16 w-full max-w-2xl">
+        <form onSubmit={handleSubmit} className="mb-4">
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search posts, #tags and people"
+            className="w-full rounded-full border border-gray-300 px-4 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            maxLength={100}
+            aria-label="Search"
+          />
+        </form>
+
+        <div className="mb-6 flex border-b border-gray-200" role="tablist">
+          {SEARCH_TABS.map((t) => (
+            <button
+              key={t.type}
+              onClick={() => query && navigate(query, t.type)}
+              role="tab"
+              aria-selected={tab === t.type}
+              className={`flex-1 border-b-2 px-4 py-2 text-sm font-semibold ${
+                tab === t.type ? "border-indigo-600 text-indigo-600" : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500">Searching...</p>
+        ) : error ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-center text-red-700">{error}</div>
+        ) : query.length < 2 ? (
+          <p className="text-center text-gray-500">Type at least two characters to search.</p>
+        ) : !hasResults ? (
+          <p className="rounded-lg border border-gray-200 bg-white p-6 text-center text-gray-500 shadow-sm">
+            No results for &ldquo;{query}&rdquo;.
+          </p>
+        ) : (
+          <>
+            {showUsers && users.length > 0 && (
+              <section className="mb-6">
+                {tab === "all" && <h2 className="mb-2 text-lg font-semibold text-gray-800">People</h2>}
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white shadow-sm">
+                  {users.map((user) => (
+                    <UserResultItem
+                      key={user._id}
+                      user={user}
+                      canFollow={status === "authenticated"}
+                      onToggleFollow={handleFollowToggle}
+                    />
+                  ))}
+                </ul>
+                {tab === "all" && paging.users.hasMore && (
+                  <button onClick={() => navigate(query, "users")} className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                    See all people
+                  </button>
+                )}
+              </section>
+            )}
+            {showPosts && posts.length > 0 && (
+              <section>
+                {tab === "all" && <h2 className="mb-2 text-lg font-semibold text-gray-800">Posts</h2>}
+                {posts.map((post) => (
+                  <PostItem
+                    key={post._id}
+                    post={post}
+                    onPostDeleted={() => setPosts((prev) => prev.filter((p) => p._id !== post._id))}
+                  />
+                ))}
+                {tab === "all" && paging.posts.hasMore && (
+                  <button onClick={() => navigate(query, "posts")} className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                    See all posts
+                  </button>
+                )}
+              </section>
+            )}
+            <InfiniteScrollTrigger onLoadMore={loadMore} hasMore={activePaging.hasMore} isLoading={isLoadingMore} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary in the app router
+export default function SearchPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg text-gray-600">Loading search...</p>
+        </div>
+      }
+    >
+      <SearchResults />
+    </Suspense>
+  );
+}
@@ -0,0 +1,132 @@
+// app/tags/[tag]/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import axios from "axios";
+import PostItem from "@/components/PostItem";
+import InfiniteScrollTrigger from "@/components/InfiniteScrollTrigger";
+import { PopulatedPost } from "@/components/Feed";
+import { useSocket } from "@/context/SocketContext";
+
+// Every post using a hashtag, newest first
+export default function TagPage() {
+  const params = useParams();
+  const tagParam = decodeURIComponent(params.tag as string);
+  const { socket, isConnected } = useSocket();
+
+  const [tag, setTag] = useState(tagParam.toLowerCase());
+  const [posts, setPosts] = useState<PopulatedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the first page of tagged posts, or the page after `cursor`
+  const fetchPosts = useCallback(
+    async (cursor: string | null = null) => {
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
+      setError(null);
+
+      try {
+        const response = await axios.get(`/api/tags/${encodeURIComponent(tagParam)}`, {
+          params: cursor ? { cursor } : {},
+        });
+        if (response.data.success) {
+          const page = response.data.data as PopulatedPost[];
+          setTag(response.data.tag); // The normalized form
+          setPosts((prevPosts) => {
+            if (!cursor) return page;
+            const seen = new Set(prevPosts.map((post) => post._id));
+            return [...prevPosts, ...page.filter((post) => !seen.has(post._id))];
+          });
+          setNextCursor(response.data.pagination.nextCursor);
+          setHasMore(response.data.pagination.hasMore);
+        } else {
+          setError(response.data.message || "Failed to load posts.");
+        }
+      } catch (err) {
+        console.error(`TagPage (#${tagParam}): Error fetching posts:`, err);
+        if (axios.isAxiosError(err) && err.response?.status === 400) {
+          setError("That isn't a valid hashtag.");
+        } else {
+          setError("An error occurred while loading posts.");
+        }
+        setHasMore(false); // Stop the sentinel from retrying in a loop
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [tagParam]
+  );
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  const loadMorePosts = useCallback(() => {
+    if (nextCursor && !isLoadingMore) fetchPosts(nextCursor);
+  }, [nextCursor, isLoadingMore, fetchPosts]);
+
+  // New posts using the tag show up live; deleted ones disappear
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const handleNewPost = (newPost: PopulatedPost) => {
+      if (!newPost.hashtags?.includes(tag)) return;
+      setPosts((prevPosts) =>
+        prevPosts.some((post) => post._id === newPost._id) ? prevPosts : [newPost, ...prevPosts]
+      );
+    };
+    const handlePostDeleted = (data: { postId: string }) => {
+      setPosts((prevPosts) => prevPosts.filter((post) => post._id !== data.postId));
+    };
+    socket.on("post_created", handleNewPost);
+    socket.on("post_deleted", handlePostDeleted);
+    return () => {
+      socket.off("post_created", handleNewPost);
+      socket.off("post_deleted", handlePostDeleted);
+    };
+  }, [socket, isConnected, tag]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <p className="text-lg text-gray-600">Loading posts...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center bg-gray-50 p-4 pt-8">
+      <main className="mt-16 w-full max-w-2xl">
+        <h1 className="mb-6 text-2xl font-bold text-gray-900">#{tag}</h1>
+        {error && posts.length === 0 ? (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-center text-red-700">{error}</div>
+        ) : posts.length > 0 ? (
+          posts.map((post) => (
+            <PostItem
+              key={post._id}
+              post={post}
+              onPostDeleted={() => setPosts((prev) => prev.filter((p) => p._id !== post._id))}
+            />
+          ))
+        ) : (
+          <p className="rounded-lg border border-gray-200 bg-white p-6 text-center text-gray-500 shadow-sm">
+            No posts with #{tag} yet.
+          </p>
+        )}
+        <InfiniteScrollTrigger
+          onLoadMore={loadMorePosts}
+          hasMore={hasMore}
+          isLoading={isLoadingMore}
+        />
+      </main>
+    </div>
+  );
+}
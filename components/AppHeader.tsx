@@ -0,0 +1,76 @@
+// components/AppHeader.tsx
+"use client";
+
+import React, { useState, FormEvent } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSession, signOut } from "next-auth/react";
+import NotificationBell from "./NotificationBell";
+
+// Fixed top bar shown on every page for signed-in users
+const AppHeader: React.FC = () => {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [searchQuery, setSearchQuery] = useState("");
+
+  if (status !== "authenticated" || !session?.user) {
+    return null;
+  }
+
+  const handleLogout = async () => {
+    await signOut({ callbackUrl: "/login" });
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const q = searchQuery.trim();
+    if (q) router.push(`/search?q=${encodeURIComponent(q)}`);
+  };
+
+  return (
+    <header className="fixed left-0 right-0 top-0 z-10 mb-6 w-full border-b border-gray-200 bg-white shadow-sm">
+      <div className="mx-auto flex max-w-4xl items-center justify-between p-3">
+        <Link href="/" className="text-xl font-bold text-indigo-600">
+          Fancy Social
+        </Link>
+        <form onSubmit={handleSearch} className="mx-4 hidden flex-1 sm:block">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search"
+            className="w-full max-w-xs rounded-full border border-gray-300 px-3 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            maxLength={100}
+            aria-label="Search posts and people"
+          />
+        </form>
+        <div className="flex items-center space-x-4">
+          {/* Small screens have no room for the input; the search page has its own */}
+          <Link href="/search" className="text-gray-500 hover:text-indigo-600 sm:hidden" aria-label="Search">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+            </svg>
+          </Link>
+          <NotificationBell />
+          <Link href="/bookmarks" className="text-sm text-gray-700 hover:underline">
+            Bookmarks
+          </Link>
+          <Link
+            href={`/profile/${session.user.username ?? ""}`}
+            className="text-sm text-gray-700 hover:underline"
+          >
+            Hi, {session.user.username || session.user.name}!
+          </Link>
+          <button
+            onClick={handleLogout}
+            className="rounded bg-red-500 px-3 py-1 text-xs font-medium text-white shadow-sm hover:bg-red-600"
+          >
+            Logout
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+};
+
+export default AppHeader;
@@ -5,114 +5,195 @@ import React, { useState, useRef } from "react"; // Added useRef
 import axios from "axios";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
-import { useSocket } from "@/context/SocketContext";
-import { PopulatedPost } from "./Feed"; // Assuming Feed exports this type
+import type { PopulatedPost } from "./Feed";
+import MentionInput from "./MentionInput";
+import {
+  MAX_ALT_TEXT_LENGTH,
+  MAX_IMAGE_UPLOAD_MB,
+  MAX_MEDIA_PER_POST,
+  MAX_VIDEO_DURATION_SECONDS,
+  MAX_VIDEO_UPLOAD_MB,
+  PostMedia,
+} from "@/lib/media";
+
+const VIDEO_TYPES = ["video/mp4", "video/webm"];
+
+// An image or video picked in the form, not uploaded until the post is submitted
+interface Attachment {
+  file: File;
+  preview: string; // Data URL for an image's thumbnail, object URL for a video
+  isVideo: boolean;
+  alt: string;
+  width: number;
+  height: number;
+}
+
+// Load a picked video's metadata from an object URL, to measure it and check its length
+function loadVideoAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const preview = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.onloadedmetadata = () => {
+      if (video.duration > MAX_VIDEO_DURATION_SECONDS) {
+        URL.revokeObjectURL(preview);
+        reject(new Error(`Videos can be at most ${MAX_VIDEO_DURATION_SECONDS} seconds long.`));
+        return;
+      }
+      resolve({ file, preview, isVideo: true, alt: "", width: video.videoWidth, height: video.videoHeight });
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(preview);
+      reject(new Error(`${file.name} is not a playable video.`));
+    };
+    video.src = preview;
+  });
+}
+
+// Read a picked image as a data URL and measure it, so the post can store its size
+function loadAttachment(file: File): Promise<Attachment> {
+  if (VIDEO_TYPES.includes(file.type)) return loadVideoAttachment(file);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.onloadend = () => {
+      const preview = reader.result as string;
+      const img = new window.Image();
+      img.onload = () => resolve({ file, preview, isVideo: false, alt: "", width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = () => reject(new Error(`${file.name} is not a readable image.`));
+      img.src = preview;
+    };
+    reader.readAsDataURL(file);
+  });
+}
 
 interface CreatePostFormProps {
-  onPostCreated: () => void;
+  onPostCreated: (post: PopulatedPost) => void;
+  parentId?: string; // When set, the new post is a reply to this post
+  quoteOfId?: string; // When set, the new post quotes this post
 }
 
-const CreatePostForm: React.FC<CreatePostFormProps> = ({ onPostCreated }) => {
+const CreatePostForm: React.FC<CreatePostFormProps> = ({ onPostCreated, parentId, quoteOfId }) => {
   const { data: session } = useSession();
-  const { socket, isConnected } = useSocket();
   const [content, setContent] = useState("");
   const [isLoading, setIsLoading] = useState(false); // Combined loading state
   const [error, setError] = useState<string | null>(null);
   const characterLimit = 280;
 
-  // State for image upload
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // State for attachments (up to four images, or one video), in the order they will appear
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const imageInputRef = useRef<HTMLInputElement>(null); // Ref for hidden file input
 
-  const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      // Basic client-side validation (optional, backend validates too)
-      if (!file.type.startsWith("image/")) {
-        setError("Please select an image file.");
-        return;
-      }
-      if (file.size > 10 * 1024 * 1024) { // 10MB example
-        setError("Image size cannot exceed 10MB.");
-        return;
-      }
+  const handleImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (imageInputRef.current) {
+      imageInputRef.current.value = ""; // Allow picking the same file again later
+    }
+    if (files.length === 0) return;
 
-      setImageFile(file);
-      // Create object URL for preview
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+    // Basic client-side validation (optional, backend validates too)
+    const isVideo = (file: File) => VIDEO_TYPES.includes(file.type);
+    if (files.some((file) => !file.type.startsWith("image/") && !isVideo(file))) {
+      setError("Please select images or MP4/WebM videos only.");
+      return;
+    }
+    if (files.some(isVideo) && attachments.length + files.length > 1) {
+      setError("A video must be the only attachment on a post.");
+      return;
+    }
+    if (attachments.length + files.length > MAX_MEDIA_PER_POST) {
+      setError(`You can attach up to ${MAX_MEDIA_PER_POST} images.`);
+      return;
+    }
+    if (files.some((file) => (isVideo(file) || file.type === "image/gif") && file.size > MAX_VIDEO_UPLOAD_MB * 1024 * 1024)) {
+      setError(`Videos and GIFs cannot exceed ${MAX_VIDEO_UPLOAD_MB}MB.`);
+      return;
+    }
+    if (files.some((file) => !isVideo(file) && file.type !== "image/gif" && file.size > MAX_IMAGE_UPLOAD_MB * 1024 * 1024)) {
+      setError(`Image size cannot exceed ${MAX_IMAGE_UPLOAD_MB}MB.`);
+      return;
+    }
+
+    try {
+      const loaded = await Promise.all(files.map(loadAttachment));
+      setAttachments((prev) => [...prev, ...loaded].slice(0, MAX_MEDIA_PER_POST));
       setError(null); // Clear previous errors
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the image.");
     }
   };
 
-  const removeImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
-    if (imageInputRef.current) {
-      imageInputRef.current.value = ""; // Clear the file input
-    }
+  const removeAttachment = (index: number) => {
+    const removed = attachments[index];
+    if (removed?.isVideo) URL.revokeObjectURL(removed.preview);
+    setAttachments((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const updateAlt = (index: number, alt: string) => {
+    setAttachments((prev) => prev.map((a, i) => (i === index ? { ...a, alt } : a)));
   };
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    // Require content OR an image file
-    if ((!content.trim() && !imageFile) || isLoading) return;
+    // Require content OR an image
+    if ((!content.trim() && attachments.length === 0) || isLoading) return;
 
     setIsLoading(true);
     setError(null);
-    let imageUrl: string | undefined = undefined;
+    let media: Omit<PostMedia, "contentType">[] = [];
 
     try {
-      // 1. Upload image if selected
-      if (imageFile) {
-        console.log("Uploading image...");
-        const formData = new FormData();
-        formData.append("file", imageFile); // Use 'file' field name
-
+      // 1. Upload the images, if any (the server fills in each content type)
+      if (attachments.length > 0) {
+        console.log(`Uploading ${attachments.length} attachment(s)...`);
         try {
-          const uploadResponse = await axios.post("/api/files/upload", formData, {
-            headers: { "Content-Type": "multipart/form-data" },
-          });
-          if (uploadResponse.data.success) {
-            imageUrl = uploadResponse.data.data.fileUrl;
-            console.log("Image uploaded, URL:", imageUrl);
-          } else {
-            throw new Error(uploadResponse.data.message || "Image upload failed.");
-          }
-        } catch (uploadError: any) {
+          media = await Promise.all(
+            attachments.map(async (attachment) => {
+              const formData = new FormData();
+              formData.append("file", attachment.file); // Use 'file' field name
+              const uploadResponse = await axios.post("/api/files/upload", formData, {
+                headers: { "Content-Type": "multipart/form-data" },
+              });
+              if (!uploadResponse.data.success) {
+                throw new Error(uploadResponse.data.message || "Upload failed.");
+              }
+              // The server may have rotated the image, so prefer its dimensions (the
+              // poster and duration are filled in by the server when the post is made)
+              const { fileUrl, width, height } = uploadResponse.data.data;
+              return {
+                url: fileUrl,
+                alt: attachment.alt.trim(),
+                width: width ?? attachment.width,
+                height: height ?? attachment.height,
+              };
+            })
+          );
+        } catch (uploadError) {
           console.error("Image upload error:", uploadError);
-          setError(uploadError.response?.data?.message || uploadError.message || "Failed to upload image.");
+          const message = axios.isAxiosError(uploadError) ? uploadError.response?.data?.message : uploadError instanceof Error ? uploadError.message : null;
+          setError(message || "Failed to upload attachment.");
           setIsLoading(false);
-          return; // Stop post creation if image upload fails
+          return; // Stop post creation if an upload fails
         }
       }
 
-      // 2. Create the post (with or without image URL)
-      console.log("Creating post with content:", content, "and imageUrl:", imageUrl);
+      // 2. Create the post (with or without attachments)
+      console.log("Creating post with content:", content, "and", media.length, "attachment(s)");
       const postPayload = {
         content: content.trim(),
-        ...(imageUrl && { imageUrl: imageUrl }), // Conditionally add imageUrl
+        ...(media.length > 0 && { media }),
+        ...(parentId && { parentId }),
+        ...(quoteOfId && { quoteOfId }),
       };
       const response = await axios.post("/api/posts", postPayload);
 
       if (response.data.success) {
-        const newPostData = response.data.data as PopulatedPost;
-
         // Reset form state
         setContent("");
-        removeImage(); // Clear image preview and file state
-        onPostCreated(); // Trigger refresh for the user who posted
-
-        // Emit event for other clients via server
-        if (socket && isConnected) {
-          console.log("CreatePostForm: Emitting 'new_post_from_client'", newPostData);
-          socket.emit("new_post_from_client", newPostData);
-        } else { /* ... warning ... */ }
-
+        attachments.filter((a) => a.isVideo).forEach((a) => URL.revokeObjectURL(a.preview));
+        setAttachments([]);
+        onPostCreated(response.data.data); // Trigger refresh for the user who posted
+        // Other clients receive 'post_created' from the server
       } else {
         setError(response.data.message || "Failed to create post.");
       }
@@ -133,40 +214,68 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onPostCreated }) => {
       <form onSubmit={handleSubmit}>
         <div className="flex space-x-3">
           <Image src={profilePic} alt="Your avatar" width={40} height={40} className="h-10 w-10 flex-shrink-0 rounded-full object-cover" unoptimized />
-          <textarea
+          <MentionInput
+            multiline
             value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="What's happening?"
+            onChange={setContent}
+            placeholder={parentId ? "Post your reply" : quoteOfId ? "Add a comment" : "What's happening?"}
             className={`w-full resize-none rounded-md border p-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 ${ charsLeft < 0 ? "border-red-500" : "border-gray-300" }`}
             rows={3}
             maxLength={characterLimit + 20}
             disabled={isLoading}
-            aria-label="Create a new post"
+            aria-label={parentId ? "Reply to post" : "Create a new post"}
           />
         </div>
 
-        {/* Image Preview */}
-        {imagePreview && (
-          <div className="relative mt-3">
-            <Image
-              src={imagePreview}
-              alt="Image preview"
-              width={500} // Adjust preview size as needed
-              height={300}
-              className="h-auto max-h-[40vh] w-full rounded-lg border border-gray-300 object-contain" // Use object-contain
-            />
-            {/* Remove Image Button */}
-            <button
-              type="button"
-              onClick={removeImage}
-              disabled={isLoading}
-              className="absolute right-2 top-2 rounded-full bg-black bg-opacity-50 p-1 text-white hover:bg-opacity-75 disabled:cursor-not-allowed"
-              aria-label="Remove image"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
+        {/* Image and video previews, each with its alt text */}
+        {attachments.length > 0 && (
+          <div className={`mt-3 grid gap-2 ${attachments.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}>
+            {attachments.map((attachment, index) => (
+              <div key={attachment.preview} className="space-y-1">
+                <div className="relative">
+                  {attachment.isVideo ? (
+                    <video
+                      src={attachment.preview}
+                      controls
+                      muted
+                      playsInline
+                      aria-label={attachment.alt || "Video preview"}
+                      className="max-h-[40vh] w-full rounded-lg border border-gray-300 bg-black object-contain"
+                    />
+                  ) : (
+                    <Image
+                      src={attachment.preview}
+                      alt={attachment.alt || `Image preview ${index + 1}`}
+                      width={attachment.width}
+                      height={attachment.height}
+                      className="h-auto max-h-[40vh] w-full rounded-lg border border-gray-300 object-contain" // Use object-contain
+                    />
+                  )}
+                  {/* Remove Image Button */}
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(index)}
+                    disabled={isLoading}
+                    className="absolute right-2 top-2 rounded-full bg-black bg-opacity-50 p-1 text-white hover:bg-opacity-75 disabled:cursor-not-allowed"
+                    aria-label={attachment.isVideo ? "Remove video" : `Remove image ${index + 1}`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={attachment.alt}
+                  onChange={(e) => updateAlt(index, e.target.value)}
+                  placeholder={attachment.isVideo ? "Describe this video (alt text)" : "Describe this image (alt text)"}
+                  maxLength={MAX_ALT_TEXT_LENGTH}
+                  disabled={isLoading}
+                  className="w-full rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  aria-label={attachment.isVideo ? "Alt text for video" : `Alt text for image ${index + 1}`}
+                />
+              </div>
+            ))}
           </div>
         )}
 
@@ -178,9 +287,9 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onPostCreated }) => {
           <button
             type="button"
             onClick={() => imageInputRef.current?.click()}
-            disabled={isLoading}
+            disabled={isLoading || attachments.length >= MAX_MEDIA_PER_POST || attachments.some((a) => a.isVideo)}
             className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-indigo-600 disabled:cursor-not-allowed disabled:opacity-50"
-            aria-label="Add image"
+            aria-label="Add images or a video"
           >
             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-6 w-6">
               <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909m-18 3.75h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5zm10.5-11.25h.008v.008h-.008V8.25zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
@@ -191,7 +300,8 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onPostCreated }) => {
             type="file"
             ref={imageInputRef}
             onChange={handleImageChange}
-            accept="image/png, image/jpeg, image/gif, image/webp"
+            accept="image/png, image/jpeg, image/gif, image/webp, image/avif, video/mp4, video/webm"
+            multiple
             className="hidden"
             disabled={isLoading}
           />
@@ -203,10 +313,10 @@ const CreatePostForm: React.FC<CreatePostFormProps> = ({ onPostCreated }) => {
             </span>
             <button
               type="submit"
-              disabled={isLoading || (!content.trim() && !imageFile) || charsLeft < 0} // Disable if no content AND no image
+              disabled={isLoading || (!content.trim() && attachments.length === 0) || charsLeft < 0} // Disable if no content AND no image
               className={`rounded-full bg-indigo-600 px-4 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50`}
             >
-              {isLoading ? "Posting..." : "Post"}
+              {isLoading ? "Posting..." : parentId ? "Reply" : "Post"}
             </button>
           </div>
         </div>
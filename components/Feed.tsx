@@ -4,54 +4,67 @@
 import React, { useState, useEffect, useCallback } from "react";
 import axios from "axios";
 import PostItem from "./PostItem";
-import { IPost } from "@/models/Post";
+import InfiniteScrollTrigger from "./InfiniteScrollTrigger";
 import { useSocket } from "@/context/SocketContext"; // Import useSocket
-import { PopulatedUser, PopulatedComment } from "./PostItem"; // Import types
+import { PostData } from "./PostItem"; // Import types
 
 // Define the shape of the post data expected from the API/Socket
 // Export this type if CreatePostForm needs it
-export type PopulatedPost = Omit<IPost, "author" | "likes" | "comments"> & {
-  _id: string;
-  author: PopulatedUser;
-  likes: string[];
-  comments: PopulatedComment[];
-};
+export type PopulatedPost = PostData;
+
+// Home shows the viewer and who they follow; Explore shows everyone
+export type FeedType = "home" | "all";
+
+const FEED_TABS: { type: FeedType; label: string }[] = [
+  { type: "home", label: "Home" },
+  { type: "all", label: "Explore" },
+];
 
 // --- Add refreshFeed prop interface ---
 interface FeedProps {
     refreshFeed: () => void; // Function to trigger a refresh in HomePage
+    feedType: FeedType; // Kept by HomePage so a refresh (remount) stays on the same tab
+    onFeedTypeChange: (type: FeedType) => void;
 }
 // --- End Add ---
 
-const Feed: React.FC<FeedProps> = ({ refreshFeed }) => { // Destructure refreshFeed prop
+const Feed: React.FC<FeedProps> = ({ refreshFeed, feedType, onFeedTypeChange }) => { // Destructure refreshFeed prop
   const [posts, setPosts] = useState<PopulatedPost[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const limit = 10;
 
   const { socket, isConnected } = useSocket(); // Get socket instance and connection status
 
-  // Function to fetch posts
+  // Function to fetch posts: the first page, or the page after `cursor`
   const fetchPosts = useCallback(
-    async (pageNum: number, loadMore = false) => {
-      if (!loadMore) {
+    async (cursor: string | null = null) => {
+      const loadMore = cursor !== null;
+      if (loadMore) {
+        setIsLoadingMore(true);
+      } else {
         setIsLoading(true);
       }
       setError(null);
 
       try {
         const response = await axios.get("/api/posts", {
-          params: { page: pageNum, limit },
+          params: { limit, feed: feedType, ...(cursor && { cursor }) },
         });
 
         if (response.data.success) {
           const newPosts = response.data.data as PopulatedPost[];
-          setPosts((prevPosts) =>
-            loadMore ? [...prevPosts, ...newPosts] : newPosts
-          );
-          setHasMore(newPosts.length === limit);
+          setPosts((prevPosts) => {
+            if (!loadMore) return newPosts;
+            // Skip posts already shown (e.g. delivered live over the socket)
+            const seen = new Set(prevPosts.map((post) => post._id));
+            return [...prevPosts, ...newPosts.filter((post) => !seen.has(post._id))];
+          });
+          setNextCursor(response.data.pagination.nextCursor);
+          setHasMore(response.data.pagination.hasMore);
         } else {
           setError(response.data.message || "Failed to fetch posts.");
           setHasMore(false);
@@ -63,19 +76,20 @@ const Feed: React.FC<FeedProps> = ({ refreshFeed }) => { // Destructure refreshF
         );
         setHasMore(false);
       } finally {
-        // Only stop initial loading indicator
-        if (!loadMore) {
-            setIsLoading(false);
+        if (loadMore) {
+          setIsLoadingMore(false);
+        } else {
+          setIsLoading(false);
         }
       }
     },
-    [limit]
+    [limit, feedType]
   );
 
-  // Initial fetch on component mount
+  // Initial fetch on component mount (and again whenever the tab changes)
   useEffect(() => {
-    fetchPosts(1);
-  }, [fetchPosts]); // Note: fetchPosts depends on limit, which is stable.
+    fetchPosts();
+  }, [fetchPosts]); // Note: fetchPosts changes only with limit (stable) and feedType.
 
   // --- Socket Listeners ---
   useEffect(() => {
@@ -111,88 +125,136 @@ const Feed: React.FC<FeedProps> = ({ refreshFeed }) => { // Destructure refreshF
     };
     // --- End Listener for Deleted Posts ---
 
-    console.log("Feed: Attaching 'post_created' listener");
-    socket.on("post_created", handleNewPost);
+    // --- Listener for Resync (missed too many events while disconnected) ---
+    const handleResyncRequired = () => {
+        console.log("Feed: Received 'resync_required', refetching posts");
+        fetchPosts();
+    };
+
+    // The server sends home timeline posts only to the author's and followers' rooms
+    const newPostEvent = feedType === "home" ? "home_post_created" : "post_created";
+
+    console.log(`Feed: Attaching '${newPostEvent}' listener`);
+    socket.on(newPostEvent, handleNewPost);
     console.log("Feed: Attaching 'post_deleted' listener"); // Log attachment
     socket.on("post_deleted", handlePostDeleted); // Attach listener
+    socket.on("resync_required", handleResyncRequired);
 
     // Cleanup listeners
     return () => {
-      console.log("Feed: Detaching 'post_created' listener");
-      socket.off("post_created", handleNewPost);
+      console.log(`Feed: Detaching '${newPostEvent}' listener`);
+      socket.off(newPostEvent, handleNewPost);
       console.log("Feed: Detaching 'post_deleted' listener"); // Log detachment
       socket.off("post_deleted", handlePostDeleted); // Detach listener
+      socket.off("resync_required", handleResyncRequired);
     };
-  }, [socket, isConnected]); // Dependencies
+  }, [socket, isConnected, fetchPosts, feedType]); // Dependencies
 
-  // Function to handle loading more posts
-  const loadMorePosts = () => {
-    const nextPage = page + 1;
-    setPage(nextPage);
-    fetchPosts(nextPage, true); // Pass true for loadMore
+  // Function to handle loading more posts (called by the infinite scroll sentinel)
+  const loadMorePosts = useCallback(() => {
+    if (isLoadingMore || !nextCursor) return;
+    fetchPosts(nextCursor);
+  }, [isLoadingMore, nextCursor, fetchPosts]);
+
+  // Switch between Home and Explore, starting again from the first page
+  const selectFeed = (type: FeedType) => {
+    if (type === feedType) return;
+    setPosts([]);
+    setNextCursor(null);
+    setHasMore(true);
+    onFeedTypeChange(type);
   };
 
   // --- Render Logic ---
 
-  if (isLoading && page === 1) {
+  const feedTabs = (
+    <div className="mt-6 flex border-b border-gray-200" role="tablist">
+      {FEED_TABS.map((tab) => (
+        <button
+          key={tab.type}
+          onClick={() => selectFeed(tab.type)}
+          role="tab"
+          aria-selected={feedType === tab.type}
+          className={`flex-1 border-b-2 px-4 py-2 text-sm font-semibold ${
+            feedType === tab.type
+              ? "border-indigo-600 text-indigo-600"
+              : "border-transparent text-gray-500 hover:text-gray-700"
+          }`}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (isLoading) {
     return (
-      <div className="mt-8 text-center text-gray-500">Loading posts...</div>
+      <div className="w-full max-w-2xl">
+        {feedTabs}
+        <div className="mt-8 text-center text-gray-500">Loading posts...</div>
+      </div>
     );
   }
 
   if (error && posts.length === 0) {
     return (
-      <div className="mt-8 rounded border border-red-200 bg-red-50 p-4 text-center text-red-700">
-        Error loading feed: {error}
+      <div className="w-full max-w-2xl">
+        {feedTabs}
+        <div className="mt-8 rounded border border-red-200 bg-red-50 p-4 text-center text-red-700">
+          Error loading feed: {error}
+        </div>
       </div>
     );
   }
 
   if (!isLoading && posts.length === 0) {
     return (
-      <div className="mt-8 text-center text-gray-500">
-        No posts yet. Be the first!
+      <div className="w-full max-w-2xl">
+        {feedTabs}
+        <div className="mt-8 text-center text-gray-500">
+          {feedType === "home"
+            ? "Nothing here yet. Post something or follow people to fill your timeline!"
+            : "No posts yet. Be the first!"}
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="mt-6 w-full max-w-2xl">
-      {/* List of Posts */}
-      {posts.map((post) =>
-        post._id ? (
-            // --- Pass refreshFeed down to PostItem as onPostDeleted ---
-            <PostItem key={post._id} post={post} onPostDeleted={refreshFeed} />
-            // --- End Pass ---
-        ) : null
-      )}
-
-      {/* Error message during load more */}
-      {error && posts.length > 0 && (
-        <p className="text-center text-sm text-red-600">
-          Error loading more posts: {error}
-        </p>
-      )}
-
-      {/* Load More Button */}
-      {hasMore && (
-        <div className="mt-6 text-center">
-          <button
-            onClick={loadMorePosts}
-            // Consider adding a loading state specific to loadMore
-            // disabled={isLoadingMore}
-            className="rounded-full bg-gray-100 px-5 py-2 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-60"
-          >
-            Load More {/* Change text if isLoadingMore state exists */}
-          </button>
-        </div>
-      )}
+    <div className="w-full max-w-2xl">
+      {feedTabs}
+      <div className="mt-6">
+        {/* List of Posts */}
+        {posts.map((post) =>
+          post._id ? (
+              // --- Pass refreshFeed down to PostItem as onPostDeleted ---
+              <PostItem key={post._id} post={post} onPostDeleted={refreshFeed} />
+              // --- End Pass ---
+          ) : null
+        )}
+
+        {/* Error message during load more */}
+        {error && posts.length > 0 && (
+          <p className="text-center text-sm text-red-600">
+            Error loading more posts: {error}
+          </p>
+        )}
 
-      {!hasMore && posts.length > 0 && (
-        <p className="mt-6 text-center text-sm text-gray-500">
-          You've reached the end!
-        </p>
-      )}
+        {/* Infinite scroll: loads the next page off the cursor */}
+        {hasMore && (
+          <InfiniteScrollTrigger
+            onLoadMore={loadMorePosts}
+            hasMore={hasMore}
+            isLoading={isLoadingMore}
+          />
+        )}
+
+        {!hasMore && posts.length > 0 && (
+          <p className="mt-6 text-center text-sm text-gray-500">
+            You've reached the end!
+          </p>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,41 @@
+// components/InfiniteScrollTrigger.tsx
+"use client";
+
+import React, { useEffect, useRef } from "react";
+
+interface InfiniteScrollTriggerProps {
+  onLoadMore: () => void; // Called when the sentinel scrolls into view
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+// Invisible sentinel placed after a list; loads the next page as it nears the viewport
+const InfiniteScrollTrigger: React.FC<InfiniteScrollTriggerProps> = ({
+  onLoadMore,
+  hasMore,
+  isLoading,
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore();
+      },
+      { rootMargin: "400px" } // Start loading a little before the end is visible
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoading]);
+
+  return (
+    <div ref={sentinelRef} className="py-4 text-center text-sm text-gray-500">
+      {isLoading && hasMore ? "Loading more..." : null}
+    </div>
+  );
+};
+
+export default InfiniteScrollTrigger;
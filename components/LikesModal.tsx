@@ -0,0 +1,165 @@
+// components/LikesModal.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import Image from "next/image";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { REACTIONS, ReactionCounts, ReactionType } from "@/lib/reactions";
+
+interface ReactingUser {
+  _id: string;
+  username: string;
+  name?: string;
+  profilePicture?: string;
+  isFollowing: boolean;
+  isViewer: boolean;
+}
+
+interface LikesModalProps {
+  postId: string;
+  reactionCounts: ReactionCounts;
+  onClose: () => void;
+}
+
+// Lists who reacted to a post, one tab per reaction, with inline follow buttons
+const LikesModal: React.FC<LikesModalProps> = ({ postId, reactionCounts, onClose }) => {
+  const { data: session } = useSession();
+  const tabs = REACTIONS.filter((r) => (reactionCounts[r.type] ?? 0) > 0);
+  const [activeType, setActiveType] = useState<ReactionType>(
+    tabs.some((r) => r.type === "like") ? "like" : tabs[0]?.type ?? "like"
+  );
+  const [users, setUsers] = useState<ReactingUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingFollow, setPendingFollow] = useState<string | null>(null);
+
+  // Fetch the first page for the active reaction, or the page after `cursor`
+  const fetchUsers = useCallback(
+    async (cursor: string | null = null) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await axios.get(`/api/posts/${postId}/likes`, {
+          params: { type: activeType, ...(cursor && { cursor }) },
+        });
+        if (response.data.success) {
+          const page = response.data.data as ReactingUser[];
+          setUsers((prevUsers) => (cursor ? [...prevUsers, ...page] : page));
+          setNextCursor(response.data.pagination.nextCursor);
+        } else {
+          setError(response.data.message || "Failed to load reactions.");
+        }
+      } catch (err) {
+        console.error(`LikesModal (${postId}): Error fetching reactions:`, err);
+        setError("An error occurred while loading reactions.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [postId, activeType]
+  );
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Toggle following with an optimistic update, like the profile page
+  const handleFollowToggle = async (user: ReactingUser) => {
+    if (pendingFollow) return;
+    setPendingFollow(user._id);
+    const toggle = (u: ReactingUser) => (u._id === user._id ? { ...u, isFollowing: !u.isFollowing } : u);
+    setUsers((prevUsers) => prevUsers.map(toggle));
+    try {
+      const response = await axios.post(`/api/users/${user.username}/follow`);
+      if (!response.data.success) {
+        console.error("Failed to follow/unfollow:", response.data.message);
+        setUsers((prevUsers) => prevUsers.map(toggle));
+      }
+    } catch (err) {
+      console.error("Error calling follow API:", err);
+      setUsers((prevUsers) => prevUsers.map(toggle));
+    } finally {
+      setPendingFollow(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-40 p-4" onClick={onClose}>
+      <div className="flex max-h-[80vh] w-full max-w-sm flex-col rounded-lg bg-white shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-gray-100 px-4 py-3">
+          <h3 className="text-lg font-semibold text-gray-900">Reactions</h3>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700" aria-label="Close reactions">
+            Close
+          </button>
+        </div>
+
+        {/* One tab per reaction that has been used */}
+        {tabs.length > 1 && (
+          <div className="flex space-x-1 border-b border-gray-100 px-2">
+            {tabs.map((r) => (
+              <button
+                key={r.type}
+                onClick={() => setActiveType(r.type)}
+                className={`border-b-2 px-2 py-2 text-sm ${ activeType === r.type ? "border-indigo-600 font-semibold text-indigo-600" : "border-transparent text-gray-500 hover:text-gray-700" }`}
+                aria-label={`${r.label} (${reactionCounts[r.type]})`}
+              >
+                {r.emoji} {reactionCounts[r.type]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <ul className="flex-1 divide-y divide-gray-100 overflow-y-auto">
+          {users.map((user) => (
+            <li key={user._id} className="flex items-center space-x-3 px-4 py-2">
+              <Image
+                src={user.profilePicture ?? "/default-avatar.png"}
+                alt={`${user.username}'s avatar`}
+                width={36}
+                height={36}
+                className="h-9 w-9 flex-shrink-0 rounded-full object-cover"
+                unoptimized
+              />
+              <Link href={`/profile/${user.username}`} onClick={onClose} className="min-w-0 flex-1 hover:underline">
+                <p className="truncate text-sm font-semibold text-gray-900">{user.name || user.username}</p>
+                <p className="truncate text-xs text-gray-500">@{user.username}</p>
+              </Link>
+              {session?.user && !user.isViewer && (
+                <button
+                  onClick={() => handleFollowToggle(user)}
+                  disabled={pendingFollow === user._id}
+                  className={`rounded-md px-3 py-1 text-xs font-semibold shadow-sm disabled:cursor-not-allowed disabled:opacity-70 ${
+                    user.isFollowing
+                      ? "border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                      : "bg-indigo-600 text-white hover:bg-indigo-700"
+                  }`}
+                >
+                  {pendingFollow === user._id ? "..." : user.isFollowing ? "Unfollow" : "Follow"}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {error && <p className="px-4 py-2 text-center text-sm text-red-600">{error}</p>}
+        {!isLoading && !error && users.length === 0 && (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">No reactions yet.</p>
+        )}
+        {(isLoading || nextCursor) && (
+          <button
+            onClick={() => nextCursor && fetchUsers(nextCursor)}
+            disabled={isLoading}
+            className="border-t border-gray-100 py-2 text-center text-xs font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+          >
+            {isLoading ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LikesModal;
@@ -0,0 +1,190 @@
+// components/MediaGrid.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import Image from "next/image";
+import { PostMedia, isVideoMedia, uploadedImageLoader } from "@/lib/media";
+
+interface MediaGridProps {
+  media: PostMedia[];
+}
+
+// Cell layout per attachment count: one full width, two side by side,
+// three with the first filling the left column, four in a 2x2 grid
+const GRID_CLASSES: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2 aspect-[16/9]",
+  3: "grid-cols-2 grid-rows-2 aspect-[16/9]",
+  4: "grid-cols-2 grid-rows-2 aspect-[16/9]",
+};
+
+// Full-screen view of one attachment; arrow keys move between them, Escape closes
+const Lightbox: React.FC<{ media: PostMedia[]; index: number; onChange: (index: number) => void; onClose: () => void }> = ({
+  media,
+  index,
+  onChange,
+  onClose,
+}) => {
+  const item = media[index];
+  const step = useCallback((delta: number) => onChange((index + delta + media.length) % media.length), [index, media.length, onChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowRight" && media.length > 1) step(1);
+      else if (e.key === "ArrowLeft" && media.length > 1) step(-1);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [media.length, step, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-30 flex items-center justify-center bg-black bg-opacity-90 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Image viewer"
+    >
+      <button onClick={onClose} className="absolute right-4 top-4 text-sm text-gray-200 hover:text-white" aria-label="Close image viewer">
+        Close
+      </button>
+      {media.length > 1 && (
+        <>
+          <button
+            onClick={(e) => { e.stopPropagation(); step(-1); }}
+            className="absolute left-4 rounded-full bg-white bg-opacity-10 px-3 py-2 text-xl text-white hover:bg-opacity-25"
+            aria-label="Previous image"
+          >
+            ‹
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); step(1); }}
+            className="absolute right-4 rounded-full bg-white bg-opacity-10 px-3 py-2 text-xl text-white hover:bg-opacity-25"
+            aria-label="Next image"
+          >
+            ›
+          </button>
+        </>
+      )}
+      <figure className="flex max-h-full max-w-full flex-col items-center" onClick={(e) => e.stopPropagation()}>
+        <Image
+          src={item.url}
+          loader={uploadedImageLoader}
+          sizes="100vw"
+          alt={item.alt}
+          width={item.width}
+          height={item.height}
+          className="max-h-[85vh] w-auto max-w-full object-contain"
+        />
+        {(item.alt || media.length > 1) && (
+          <figcaption className="mt-2 max-w-2xl text-center text-sm text-gray-200">
+            {media.length > 1 && <span className="mr-2 text-gray-400">{index + 1} / {media.length}</span>}
+            {item.alt}
+          </figcaption>
+        )}
+      </figure>
+    </div>
+  );
+};
+
+// Seconds as m:ss, e.g. 75.4 -> "1:15"
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+// Inline player that only fetches the video (and its poster) once it nears the
+// viewport, and pauses when it scrolls away; seeking uses the file route's ranges
+const LazyVideo: React.FC<{ item: PostMedia }> = ({ item }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isNear, setIsNear] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) setIsNear(true);
+        else if (!video.paused) video.pause();
+      },
+      { rootMargin: "400px" } // Start loading a little before the video is visible
+    );
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div className="relative bg-black">
+      <video
+        ref={videoRef}
+        src={isNear ? item.url : undefined}
+        poster={isNear ? item.posterUrl : undefined}
+        width={item.width}
+        height={item.height}
+        preload="none"
+        controls
+        playsInline
+        aria-label={item.alt || "Video"}
+        className="mx-auto max-h-[70vh] w-full object-contain"
+        style={{ aspectRatio: `${item.width} / ${item.height}` }} // Keep the space before metadata loads
+      />
+      {item.duration !== undefined && (
+        <span className="pointer-events-none absolute left-2 top-2 rounded bg-black bg-opacity-60 px-1.5 py-0.5 text-xs text-white">
+          {formatDuration(item.duration)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+// A post's attachments in a grid; clicking one opens it in the lightbox.
+// A video is always a post's only attachment and plays in place instead.
+const MediaGrid: React.FC<MediaGridProps> = ({ media }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const handleClose = useCallback(() => setOpenIndex(null), []);
+  if (media.length === 0) return null;
+
+  if (isVideoMedia(media[0])) {
+    return (
+      <div className="overflow-hidden border-y border-gray-100">
+        <LazyVideo item={media[0]} />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className={`grid gap-0.5 overflow-hidden border-y border-gray-100 bg-gray-50 ${GRID_CLASSES[media.length] ?? GRID_CLASSES[4]}`}>
+        {media.map((item, index) => (
+          <button
+            key={item.url}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className={`relative block overflow-hidden focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500 ${ media.length === 3 && index === 0 ? "row-span-2" : "" }`}
+            aria-label={item.alt ? `View image: ${item.alt}` : `View image ${index + 1} of ${media.length}`}
+          >
+            <Image
+              src={item.url}
+              loader={uploadedImageLoader} // srcset of the server's resized copies
+              sizes={media.length === 1 ? "(max-width: 672px) 100vw, 672px" : "(max-width: 672px) 50vw, 336px"}
+              alt={item.alt}
+              width={item.width}
+              height={item.height}
+              className={media.length === 1 ? "h-auto max-h-[70vh] w-full object-cover" : "h-full w-full object-cover"}
+            />
+            {item.contentType === "image/gif" && (
+              <span className="pointer-events-none absolute bottom-2 left-2 rounded bg-black bg-opacity-60 px-1.5 py-0.5 text-xs font-semibold text-white">
+                GIF
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      {openIndex !== null && <Lightbox media={media} index={openIndex} onChange={setOpenIndex} onClose={handleClose} />}
+    </>
+  );
+};
+
+export default MediaGrid;
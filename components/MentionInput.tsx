@@ -0,0 +1,149 @@
+// components/MentionInput.tsx
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import axios from "axios";
+import Image from "next/image";
+import { mentionQueryAt } from "@/lib/mentions";
+
+interface MentionSuggestion {
+  _id: string;
+  username: string;
+  name?: string;
+  profilePicture?: string;
+}
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean; // Textarea for the composer, single-line input for comments
+  rows?: number;
+  placeholder?: string;
+  className?: string;
+  maxLength?: number;
+  disabled?: boolean;
+  "aria-label"?: string;
+}
+
+const SUGGESTION_DELAY_MS = 200; // Wait for a pause in typing before searching
+
+// Text field that suggests usernames while an "@name" is being typed.
+// Arrow keys move through the list; Enter or Tab inserts the highlighted name.
+const MentionInput: React.FC<MentionInputProps> = ({ value, onChange, multiline = false, ...fieldProps }) => {
+  const fieldRef = useRef<HTMLTextAreaElement & HTMLInputElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Search once typing pauses; an empty query ("@" alone) shows nothing yet
+  useEffect(() => {
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get("/api/users/autocomplete", { params: { q: query } });
+        if (!cancelled && response.data.success) {
+          setSuggestions(response.data.data);
+          setActiveIndex(0);
+        }
+      } catch (err) {
+        console.error("MentionInput: Error fetching suggestions:", err);
+      }
+    }, SUGGESTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const updateQuery = (text: string, caret: number | null) => {
+    setQuery(caret === null ? null : mentionQueryAt(text, caret));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => {
+    onChange(e.target.value);
+    updateQuery(e.target.value, e.target.selectionStart);
+  };
+
+  // Replace the partial "@name" before the caret with the chosen username
+  const insertMention = (username: string) => {
+    const field = fieldRef.current;
+    if (!field || query === null) return;
+    const caret = field.selectionStart ?? value.length;
+    const start = caret - query.length; // Just after the "@"
+    const inserted = `${username} `;
+    onChange(value.slice(0, start) + inserted + value.slice(caret));
+    setQuery(null);
+    requestAnimationFrame(() => {
+      field.focus();
+      field.setSelectionRange(start + inserted.length, start + inserted.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0 || query === null) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertMention(suggestions[activeIndex].username);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  const sharedProps = {
+    ...fieldProps,
+    ref: fieldRef,
+    value,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    onClick: (e: React.MouseEvent<HTMLTextAreaElement | HTMLInputElement>) =>
+      updateQuery(e.currentTarget.value, e.currentTarget.selectionStart),
+    onBlur: () => setQuery(null), // Suggestions keep focus in the field, so this is a real blur
+    "aria-autocomplete": "list" as const,
+    "aria-expanded": query !== null && suggestions.length > 0,
+  };
+
+  return (
+    <div className="relative min-w-0 flex-1">
+      {multiline ? <textarea {...sharedProps} /> : <input type="text" {...sharedProps} />}
+
+      {query !== null && suggestions.length > 0 && (
+        <ul className="absolute left-0 top-full z-20 mt-1 max-h-60 w-64 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg" role="listbox">
+          {suggestions.map((user, index) => (
+            <li key={user._id} role="option" aria-selected={index === activeIndex}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()} // Keep focus in the field
+                onClick={() => insertMention(user.username)}
+                className={`flex w-full items-center space-x-2 px-3 py-1.5 text-left ${ index === activeIndex ? "bg-indigo-50" : "hover:bg-gray-50" }`}
+              >
+                <Image
+                  src={user.profilePicture ?? "/default-avatar.png"}
+                  alt=""
+                  width={24}
+                  height={24}
+                  className="h-6 w-6 flex-shrink-0 rounded-full object-cover"
+                  unoptimized
+                />
+                <span className="min-w-0">
+                  <span className="block truncate text-sm font-semibold text-gray-900">@{user.username}</span>
+                  {user.name && <span className="block truncate text-xs text-gray-500">{user.name}</span>}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionInput;
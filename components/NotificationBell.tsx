@@ -0,0 +1,233 @@
+// components/NotificationBell.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import axios from "axios";
+import Image from "next/image";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { useSession } from "next-auth/react";
+import { useSocket } from "@/context/SocketContext";
+import { NotificationType } from "@/models/Notification";
+
+// Shape of a notification as returned by /api/notifications and the socket
+export interface PopulatedNotification {
+  _id: string;
+  type: NotificationType;
+  actors: { _id: string; username: string; name?: string; profilePicture?: string }[];
+  actorCount: number;
+  post?: { _id: string; content: string } | null;
+  read: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// "alice and 11 others liked your post"
+function describeNotification(notification: PopulatedNotification): string {
+  const firstActor = notification.actors[0]?.username ?? "Someone";
+  const others = notification.actorCount - 1;
+  const who = others > 0 ? `${firstActor} and ${others} other${others === 1 ? "" : "s"}` : firstActor;
+  switch (notification.type) {
+    case "like":
+      return `${who} liked your post`;
+    case "reaction":
+      return `${who} reacted to your post`;
+    case "comment":
+      return `${who} commented on your post`;
+    case "follow":
+      return `${who} followed you`;
+    case "reply":
+      return `${who} replied to your post`;
+    case "repost":
+      return `${who} reposted your post`;
+    case "quote":
+      return `${who} quoted your post`;
+    case "mention":
+      return `${who} mentioned you`;
+    default:
+      return `${who} interacted with you`;
+  }
+}
+
+const NotificationBell: React.FC = () => {
+  const { data: session } = useSession();
+  const { socket, isConnected } = useSocket();
+  const [notifications, setNotifications] = useState<PopulatedNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const response = await axios.get("/api/notifications", {
+        params: { limit: 10, ...(cursor && { cursor }) },
+      });
+      if (response.data.success) {
+        const fetched = response.data.data as PopulatedNotification[];
+        setNotifications((prev) => (cursor ? [...prev, ...fetched] : fetched));
+        setUnreadCount(response.data.unreadCount);
+        setNextCursor(response.data.pagination.nextCursor);
+      }
+    } catch (error) {
+      console.error("NotificationBell: Error fetching notifications:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial fetch once signed in
+  useEffect(() => {
+    if (session?.user?.id) fetchNotifications();
+  }, [session?.user?.id, fetchNotifications]);
+
+  // Live delivery over the user's personal room
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    const handleNotification = (data: { notification: PopulatedNotification; unreadCount: number }) => {
+      setNotifications((prev) => [
+        data.notification,
+        ...prev.filter((n) => n._id !== data.notification._id),
+      ]);
+      setUnreadCount(data.unreadCount);
+    };
+    const handleUnreadCount = (data: { unreadCount: number }) => {
+      setUnreadCount(data.unreadCount);
+    };
+    const handleRemoved = (data: { notificationId: string }) => {
+      setNotifications((prev) => prev.filter((n) => n._id !== data.notificationId));
+    };
+
+    socket.on("notification", handleNotification);
+    socket.on("notifications_unread_count", handleUnreadCount);
+    socket.on("notification_removed", handleRemoved);
+    return () => {
+      socket.off("notification", handleNotification);
+      socket.off("notifications_unread_count", handleUnreadCount);
+      socket.off("notification_removed", handleRemoved);
+    };
+  }, [socket, isConnected]);
+
+  // Close the dropdown when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const markRead = async (body: { notificationIds: string[] } | { all: true }) => {
+    try {
+      const response = await axios.patch("/api/notifications", body);
+      if (response.data.success) {
+        const ids = "all" in body ? null : new Set(body.notificationIds);
+        setNotifications((prev) =>
+          prev.map((n) => (!ids || ids.has(n._id) ? { ...n, read: true } : n))
+        );
+        setUnreadCount(response.data.data.unreadCount);
+      }
+    } catch (error) {
+      console.error("NotificationBell: Error marking notifications read:", error);
+    }
+  };
+
+  const handleNotificationClick = (notification: PopulatedNotification) => {
+    if (!notification.read) markRead({ notificationIds: [notification._id] });
+    setIsOpen(false);
+  };
+
+  const notificationHref = (notification: PopulatedNotification) =>
+    notification.type === "follow" || !notification.post
+      ? `/profile/${notification.actors[0]?.username ?? ""}`
+      : `/posts/${notification.post._id}`;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative rounded-full p-1 text-gray-600 hover:bg-gray-100 hover:text-indigo-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ""}`}
+        aria-expanded={isOpen}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-6 w-6">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -right-1 -top-1 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-bold text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b border-gray-100 px-4 py-2">
+            <h2 className="text-sm font-semibold text-gray-800">Notifications</h2>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead({ all: true })}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length > 0 ? (
+              notifications.map((notification) => (
+                <Link
+                  key={notification._id}
+                  href={notificationHref(notification)}
+                  onClick={() => handleNotificationClick(notification)}
+                  className={`flex items-start space-x-3 px-4 py-3 text-sm hover:bg-gray-50 ${
+                    notification.read ? "" : "bg-indigo-50"
+                  }`}
+                >
+                  <Image
+                    src={notification.actors[0]?.profilePicture ?? "/default-avatar.png"}
+                    alt=""
+                    width={32}
+                    height={32}
+                    className="h-8 w-8 flex-shrink-0 rounded-full object-cover"
+                    unoptimized
+                  />
+                  <div className="flex-1">
+                    <p className="text-gray-800">{describeNotification(notification)}</p>
+                    {notification.post?.content && (
+                      <p className="mt-0.5 truncate text-xs text-gray-500">{notification.post.content}</p>
+                    )}
+                    <p className="mt-0.5 text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(notification.updatedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </Link>
+              ))
+            ) : (
+              <p className="py-6 text-center text-sm text-gray-500">
+                {isLoading ? "Loading..." : "No notifications yet."}
+              </p>
+            )}
+            {nextCursor && (
+              <button
+                onClick={() => fetchNotifications(nextCursor)}
+                disabled={isLoading}
+                className="w-full border-t border-gray-100 py-2 text-xs font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isLoading ? "Loading..." : "Load more"}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
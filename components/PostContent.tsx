@@ -0,0 +1,85 @@
+// components/PostContent.tsx
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { HASHTAG_PATTERN, isValidHashtag, normalizeHashtag } from "@/lib/hashtags";
+import { MENTION_PATTERN } from "@/lib/mentions";
+import { LINK_PATTERN, normalizeLink, trimLink } from "@/lib/links";
+
+interface PostContentProps {
+  content: string;
+  mentions?: { username: string }[]; // Users the server resolved when the text was saved
+  linkHashtags?: boolean; // Off for text that tag pages do not list (comments)
+  className?: string;
+}
+
+interface ContentLink {
+  start: number; // Index of the "#", "@" or URL
+  text: string; // The text shown, including the "#" or "@"
+  href: string;
+  external?: boolean; // URLs open in a new tab
+}
+
+// Post text with hashtags linked to their tag pages, mentions to profiles and
+// URLs to their sites. Uses the same patterns the server uses when saving, so
+// every link has a page; only mentions that resolved to a user are linked.
+const PostContent: React.FC<PostContentProps> = ({ content, mentions = [], linkHashtags = true, className }) => {
+  const links: ContentLink[] = [];
+
+  if (linkHashtags) {
+    for (const match of content.matchAll(HASHTAG_PATTERN)) {
+      const [, prefix, rawTag] = match;
+      const tag = normalizeHashtag(rawTag);
+      if (!isValidHashtag(tag)) continue;
+      links.push({ start: match.index! + prefix.length, text: `#${rawTag}`, href: `/tags/${encodeURIComponent(tag)}` });
+    }
+  }
+
+  const mentioned = new Set(mentions.map((user) => user.username.toLowerCase()));
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const [, prefix, rawUsername] = match;
+    const username = rawUsername.toLowerCase();
+    if (!mentioned.has(username)) continue;
+    links.push({ start: match.index! + prefix.length, text: `@${rawUsername}`, href: `/profile/${username}` });
+  }
+
+  // A "#fragment" or "@" inside a URL starts after it, so the overlap check drops it
+  for (const match of content.matchAll(LINK_PATTERN)) {
+    const text = trimLink(match[0]);
+    const href = normalizeLink(text);
+    if (href) links.push({ start: match.index!, text, href, external: true });
+  }
+
+  links.sort((a, b) => a.start - b.start);
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const link of links) {
+    if (link.start < lastIndex) continue; // Overlaps the previous link
+    parts.push(content.slice(lastIndex, link.start));
+    parts.push(
+      link.external ? (
+        <a
+          key={link.start}
+          href={link.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="break-all font-medium text-indigo-600 hover:underline"
+        >
+          {link.text}
+        </a>
+      ) : (
+        <Link key={link.start} href={link.href} className="font-medium text-indigo-600 hover:underline">
+          {link.text}
+        </Link>
+      )
+    );
+    lastIndex = link.start + link.text.length;
+  }
+  parts.push(content.slice(lastIndex));
+
+  return <p className={className}>{parts}</p>;
+};
+
+export default PostContent;
@@ -1,14 +1,25 @@
 // components/PostItem.tsx
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import Image from "next/image";
 import { formatDistanceToNow } from "date-fns";
-import { IPost, IComment } from "@/models/Post";
+import { IPost } from "@/models/Post";
+import { ILinkPreviewData } from "@/models/LinkPreview";
+import { IComment } from "@/models/Comment";
 import axios from "axios";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
 import { useSocket } from "@/context/SocketContext"; // Import useSocket
+import { isWithinEditWindow } from "@/lib/postEditing";
+import { ReactionCounts, ReactionType } from "@/lib/reactions";
+import ReactionPicker from "./ReactionPicker";
+import LikesModal from "./LikesModal";
+import PostContent from "./PostContent";
+import MentionInput from "./MentionInput";
+import MediaGrid from "./MediaGrid";
+import { isVideoMedia, uploadedImageLoader } from "@/lib/media";
+import CreatePostForm from "./CreatePostForm";
 
 // Define the expected shape of the populated author/user
 interface PopulatedUser {
@@ -19,25 +30,105 @@ interface PopulatedUser {
 
 // Define the shape of a comment with a populated user
 // Export this type if needed elsewhere
-export type PopulatedComment = Omit<IComment, "user"> & {
+export type PopulatedComment = Omit<IComment, "user" | "post" | "mentions"> & {
   _id: string;
+  post: string;
   user: PopulatedUser;
+  mentions?: MentionedUser[];
+};
+
+// Users mentioned in a post or comment, as populated by the API
+interface MentionedUser {
+  _id: string;
+  username: string;
+}
+
+// One version of a post as returned by the history endpoint
+interface PostVersion {
+  content: string;
+  imageUrl?: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// A post as returned by the API: populated author, the viewer's own state,
+// and for reposts/quotes the shared post (null once deleted)
+export type PostData = Omit<IPost, "author" | "repostOf" | "quoteOf" | "mentions"> & {
+  _id: string;
+  author: PopulatedUser;
+  mentions?: MentionedUser[];
+  viewerReaction?: ReactionType | null; // The signed-in viewer's own reaction
+  viewerReposted?: boolean; // Whether the signed-in viewer reposted this post
+  viewerBookmarked?: boolean; // Whether the signed-in viewer saved this post (private to them)
+  isPinned?: boolean; // Set on the post leading its author's profile
+  repostOf?: PostData | null;
+  quoteOf?: PostData | null;
 };
 
 // --- Add onPostDeleted prop ---
 interface PostItemProps {
-  post: Omit<IPost, "author" | "likes" | "comments"> & {
-    _id: string;
-    author: PopulatedUser;
-    likes: string[]; // Expecting likes as an array of user IDs (strings) initially
-    comments: PopulatedComment[];
-  };
+  post: PostData;
   onPostDeleted: () => void; // Callback function when post is deleted by current user
+  onPinChange?: () => void; // Called after the author pins or unpins the post
 }
 // --- End Add ---
 
-// --- Single Comment Component (Complete - No changes needed) ---
-const CommentItem: React.FC<{ comment: PopulatedComment }> = ({ comment }) => {
+// --- Single Comment Component ---
+interface CommentItemProps {
+  comment: PopulatedComment;
+  postId: string;
+  canEdit: boolean; // The viewer wrote the comment
+  canDelete: boolean; // The viewer wrote the comment or the post
+  onUpdated: (comment: PopulatedComment) => void;
+  onDeleted: (commentId: string, commentCount: number) => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, postId, canEdit, canDelete, onUpdated, onDeleted }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(comment.text);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editText.trim() || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await axios.patch(`/api/posts/${postId}/comments/${comment._id}`, { text: editText.trim() });
+      if (response.data.success) {
+        onUpdated(response.data.data);
+        setIsEditing(false);
+      } else {
+        setError(response.data.message || "Failed to edit comment.");
+      }
+    } catch (err) {
+      console.error(`Error editing comment ${comment._id}:`, err);
+      setError((axios.isAxiosError(err) && err.response?.data?.message) || "An error occurred while editing.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (isSaving || !window.confirm("Delete this comment?")) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await axios.delete(`/api/posts/${postId}/comments/${comment._id}`);
+      if (response.data.success) {
+        onDeleted(comment._id, response.data.data.commentCount);
+      } else {
+        setError(response.data.message || "Failed to delete comment.");
+        setIsSaving(false);
+      }
+    } catch (err) {
+      console.error(`Error deleting comment ${comment._id}:`, err);
+      setError((axios.isAxiosError(err) && err.response?.data?.message) || "An error occurred while deleting.");
+      setIsSaving(false);
+    }
+  };
+
   const authorUsername = comment.user?.username ?? "Unknown User";
   const authorProfilePic =
     comment.user?.profilePicture ?? "/default-avatar.png";
@@ -63,109 +154,440 @@ const CommentItem: React.FC<{ comment: PopulatedComment }> = ({ comment }) => {
           >
             {authorUsername}
           </Link>
-          <span className="text-xs text-gray-500">{timeAgo}</span>
+          <span className="text-xs text-gray-500">
+            {timeAgo}
+            {comment.editedAt && " (edited)"}
+          </span>
+          {!isEditing && canEdit && (
+            <button onClick={() => { setEditText(comment.text); setIsEditing(true); }} className="text-xs text-gray-500 hover:text-indigo-600">
+              Edit
+            </button>
+          )}
+          {!isEditing && canDelete && (
+            <button onClick={handleDelete} disabled={isSaving} className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50">
+              Delete
+            </button>
+          )}
         </div>
-        <p className="mt-1 whitespace-pre-wrap text-gray-700">
-          {comment.text}
-        </p>
+        {isEditing ? (
+          <form onSubmit={handleSave} className="mt-1 flex items-center space-x-2">
+            <input type="text" value={editText} onChange={(e) => setEditText(e.target.value)} maxLength={500} disabled={isSaving} className="flex-1 rounded-full border border-gray-300 px-3 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500" aria-label="Edit comment" />
+            <button type="submit" disabled={isSaving || !editText.trim()} className="text-xs font-semibold text-indigo-600 hover:text-indigo-500 disabled:opacity-50">
+              {isSaving ? "..." : "Save"}
+            </button>
+            <button type="button" onClick={() => setIsEditing(false)} disabled={isSaving} className="text-xs text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <PostContent
+            content={comment.text}
+            mentions={comment.mentions}
+            linkHashtags={false}
+            className="mt-1 whitespace-pre-wrap text-gray-700"
+          />
+        )}
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+// --- Edit History Modal ---
+const PostHistoryModal: React.FC<{ postId: string; onClose: () => void }> = ({ postId, onClose }) => {
+  const [versions, setVersions] = useState<PostVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await axios.get(`/api/posts/${postId}/history`);
+        if (response.data.success) {
+          setVersions(response.data.data.versions);
+        } else {
+          setError(response.data.message || "Failed to load edit history.");
+        }
+      } catch (err) {
+        console.error(`PostHistoryModal (${postId}): Error fetching history:`, err);
+        setError("An error occurred while loading edit history.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [postId]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-40 p-4" onClick={onClose}>
+      <div className="max-h-[80vh] w-full max-w-lg overflow-y-auto rounded-lg bg-white p-4 shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="mb-3 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Edit history</h3>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700" aria-label="Close edit history">
+            Close
+          </button>
+        </div>
+        {isLoading && <p className="py-4 text-center text-sm text-gray-500">Loading history...</p>}
+        {error && <p className="py-4 text-center text-sm text-red-600">{error}</p>}
+        <ul className="divide-y divide-gray-100">
+          {versions.map((version, index) => (
+            <li key={index} className="py-3">
+              <p className="mb-1 text-xs text-gray-500">
+                {version.current ? "Current version" : "Earlier version"} &middot;{" "}
+                {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+              </p>
+              <p className="whitespace-pre-wrap text-sm text-gray-800">{version.content}</p>
+              {version.imageUrl && (
+                <Image src={version.imageUrl} alt="Post image" width={300} height={200} className="mt-2 h-auto w-40 rounded object-cover" />
+              )}
+            </li>
+          ))}
+        </ul>
       </div>
     </div>
   );
 };
 
-// --- Main Post Item Component (Complete - Added Delete Logic) ---
-const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Destructure onPostDeleted prop
+// --- Quoted Post Embed ---
+const QuotedPost: React.FC<{ post: PostData | null }> = ({ post }) => {
+  if (!post) {
+    return (
+      <div className="mx-4 mb-3 rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm text-gray-500">
+        This post is unavailable.
+      </div>
+    );
+  }
+  const authorUsername = post.author?.username ?? "Unknown User";
+  return (
+    <Link href={`/posts/${post._id}`} className="mx-4 mb-3 block rounded-lg border border-gray-200 p-3 hover:bg-gray-50">
+      <div className="mb-1 flex items-center space-x-2">
+        <Image src={post.author?.profilePicture ?? "/default-avatar.png"} alt={`${authorUsername}'s avatar`} width={20} height={20} className="h-5 w-5 rounded-full object-cover" unoptimized />
+        <span className="text-sm font-semibold text-gray-900">{authorUsername}</span>
+        <span className="text-xs text-gray-500">
+          {post.createdAt ? formatDistanceToNow(new Date(post.createdAt), { addSuffix: true }) : ""}
+        </span>
+      </div>
+      <p className="whitespace-pre-wrap text-sm text-gray-800">{post.content}</p>
+      {post.media?.[0] && isVideoMedia(post.media[0]) ? (
+        // Quoted videos show their poster; the video plays on the post's own page
+        post.media[0].posterUrl && (
+          <Image
+            src={post.media[0].posterUrl}
+            loader={uploadedImageLoader}
+            sizes="(max-width: 672px) 100vw, 640px"
+            alt={post.media[0].alt || "Video"}
+            width={post.media[0].width}
+            height={post.media[0].height}
+            className="mt-2 h-auto max-h-48 w-full rounded object-cover"
+          />
+        )
+      ) : post.media?.[0] && (
+        <Image
+          src={post.media[0].url}
+          loader={uploadedImageLoader}
+          sizes="(max-width: 672px) 100vw, 640px"
+          alt={post.media[0].alt}
+          width={post.media[0].width}
+          height={post.media[0].height}
+          className="mt-2 h-auto max-h-48 w-full rounded object-cover"
+        />
+      )}
+      {post.imageUrl && (
+        <Image src={post.imageUrl} alt="Quoted post image" width={300} height={200} className="mt-2 h-auto max-h-48 w-full rounded object-cover" />
+      )}
+    </Link>
+  );
+};
+
+// Open Graph card for the first link in a post (fetched by the server after posting)
+const LinkPreviewCard: React.FC<{ preview: ILinkPreviewData }> = ({ preview }) => {
+  let host = preview.url;
+  try {
+    host = new URL(preview.url).hostname.replace(/^www\./, "");
+  } catch {
+    // Keep the raw URL
+  }
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="mx-4 mb-3 block overflow-hidden rounded-lg border border-gray-200 hover:bg-gray-50"
+    >
+      {preview.image && (
+        <Image src={preview.image} alt="" width={600} height={315} className="h-auto max-h-64 w-full border-b border-gray-100 object-cover" unoptimized />
+      )}
+      <div className="p-3">
+        <p className="truncate text-xs text-gray-500">{preview.siteName ?? host}</p>
+        {preview.title && <p className="line-clamp-2 text-sm font-semibold text-gray-900">{preview.title}</p>}
+        {preview.description && <p className="mt-0.5 line-clamp-2 text-sm text-gray-600">{preview.description}</p>}
+      </div>
+    </a>
+  );
+};
+
+// --- Main Post Card Component (Complete - Added Delete Logic) ---
+const PostCard: React.FC<PostItemProps> = ({ post, onPostDeleted, onPinChange }) => { // Destructure onPostDeleted prop
   const { data: session } = useSession();
   const currentUserId = session?.user?.id;
-  const { socket, isConnected } = useSocket(); // Get socket
+  const { socket, isConnected, subscribeToPost } = useSocket(); // Get socket
 
   // --- State ---
-  const [isLiked, setIsLiked] = useState(() =>
-    currentUserId ? post.likes.includes(currentUserId) : false
-  );
-  const [likeCount, setLikeCount] = useState(post.likes?.length ?? 0);
-  const [isLoadingLike, setIsLoadingLike] = useState(false);
-  const [comments, setComments] = useState<PopulatedComment[]>(post.comments ?? []);
+  const [reactionCounts, setReactionCounts] = useState<ReactionCounts>(post.reactionCounts ?? {});
+  const [viewerReaction, setViewerReaction] = useState<ReactionType | null>(post.viewerReaction ?? null);
+  const [showLikes, setShowLikes] = useState(false);
+  const [repostCount, setRepostCount] = useState(post.repostCount ?? 0);
+  const [quoteCount, setQuoteCount] = useState(post.quoteCount ?? 0);
+  const [viewerReposted, setViewerReposted] = useState(post.viewerReposted ?? false);
+  const [isReposting, setIsReposting] = useState(false);
+  const [showShareMenu, setShowShareMenu] = useState(false);
+  const [showQuoteForm, setShowQuoteForm] = useState(false);
+  const [viewerBookmarked, setViewerBookmarked] = useState(post.viewerBookmarked ?? false);
+  const [isBookmarking, setIsBookmarking] = useState(false);
+  const [isPinning, setIsPinning] = useState(false);
+  const [quotedPostDeleted, setQuotedPostDeleted] = useState(post.quotedPostDeleted ?? false);
+  // Comments are fetched a page at a time when the section is opened
+  const [comments, setComments] = useState<PopulatedComment[]>([]);
+  const [commentCount, setCommentCount] = useState(post.commentCount ?? 0);
+  const [commentsCursor, setCommentsCursor] = useState<string | null>(null);
+  const [hasMoreComments, setHasMoreComments] = useState(false);
+  const [commentsLoaded, setCommentsLoaded] = useState(false);
+  const [isLoadingComments, setIsLoadingComments] = useState(false);
+  const knownCommentIdsRef = useRef<Set<string>>(new Set()); // Avoid double-counting live comments
   const [commentText, setCommentText] = useState("");
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
   const [commentError, setCommentError] = useState<string | null>(null);
   const [showComments, setShowComments] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false); // State for delete loading
+  // Editable fields are kept locally so edits (ours or via socket) show without a refetch
+  const [content, setContent] = useState(post.content);
+  const [mentions, setMentions] = useState(post.mentions);
+  const [imageUrl, setImageUrl] = useState(post.imageUrl);
+  const [linkPreview, setLinkPreview] = useState(post.linkPreview);
+  const media = post.media ?? []; // Attachments cannot be edited, so no local copy
+  const [editedAt, setEditedAt] = useState(post.editedAt);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(post.content);
+  const [editImageFile, setEditImageFile] = useState<File | null>(null);
+  const [removeImage, setRemoveImage] = useState(false);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [replyCount, setReplyCount] = useState(post.replyCount ?? 0);
   // Removed deleteError state, using alert for simplicity
 
   // Determine if the current user is the author
   const isAuthor = post.author?._id === currentUserId;
+  // Pinning is offered only where the pinned state is known (the author's
+  // profile passes onPinChange), and only for top-level posts
+  const canPin = isAuthor && onPinChange !== undefined && !post.parent;
+  const canEdit = isAuthor && isWithinEditWindow(post.createdAt);
 
   // --- Effects ---
-  // Effect to update like state based on props
+  // Effect to update reaction state based on props
+  useEffect(() => {
+    setReactionCounts(post.reactionCounts ?? {});
+    setViewerReaction(post.viewerReaction ?? null);
+  }, [post.reactionCounts, post.viewerReaction]);
+
+  // Effect to update editable fields based on props
+  useEffect(() => {
+    setContent(post.content);
+    setMentions(post.mentions);
+    setImageUrl(post.imageUrl);
+    setLinkPreview(post.linkPreview);
+    setEditedAt(post.editedAt);
+  }, [post.content, post.mentions, post.imageUrl, post.linkPreview, post.editedAt]);
+
+  useEffect(() => {
+    setReplyCount(post.replyCount ?? 0);
+  }, [post.replyCount]);
+
+  useEffect(() => {
+    setRepostCount(post.repostCount ?? 0);
+    setQuoteCount(post.quoteCount ?? 0);
+    setViewerReposted(post.viewerReposted ?? false);
+  }, [post.repostCount, post.quoteCount, post.viewerReposted]);
+
+  useEffect(() => {
+    setViewerBookmarked(post.viewerBookmarked ?? false);
+  }, [post.viewerBookmarked]);
+
+  // Effect for Comments (start over if post prop changes)
   useEffect(() => {
-    setLikeCount(post.likes?.length ?? 0);
-    setIsLiked(currentUserId ? post.likes.includes(currentUserId) : false);
-  }, [post.likes, currentUserId]);
+    setCommentCount(post.commentCount ?? 0);
+    setComments([]);
+    setCommentsCursor(null);
+    setCommentsLoaded(false);
+    knownCommentIdsRef.current = new Set();
+  }, [post._id, post.commentCount]);
+
+  // Fetch the first page of comments, or the page after `cursor`
+  const fetchComments = useCallback(async (cursor: string | null = null) => {
+    setIsLoadingComments(true);
+    try {
+      const response = await axios.get(`/api/posts/${post._id}/comments`, {
+        params: cursor ? { cursor } : {},
+      });
+      if (response.data.success) {
+        const page = response.data.data as PopulatedComment[];
+        page.forEach((c) => knownCommentIdsRef.current.add(c._id));
+        setComments((prevComments) => {
+          const base = cursor ? prevComments : prevComments.filter((c) => !page.some((p) => p._id === c._id));
+          const seen = new Set(base.map((c) => c._id));
+          return cursor ? [...base, ...page.filter((c) => !seen.has(c._id))] : [...base, ...page];
+        });
+        setCommentsCursor(response.data.pagination.nextCursor);
+        setHasMoreComments(response.data.pagination.hasMore);
+        setCommentsLoaded(true);
+      } else {
+        setCommentError(response.data.message || "Failed to load comments.");
+      }
+    } catch (error) {
+      console.error(`PostItem (${post._id}): Error fetching comments:`, error);
+      setCommentError("An error occurred while loading comments.");
+    } finally {
+      setIsLoadingComments(false);
+    }
+  }, [post._id]);
 
-  // Effect for Comments (update if post prop changes)
+  // Load the first page the first time the comment section is opened
   useEffect(() => {
-    setComments(post.comments ?? []);
-  }, [post.comments]);
+    if (showComments && !commentsLoaded && !isLoadingComments) {
+      fetchComments();
+    }
+  }, [showComments, commentsLoaded, isLoadingComments, fetchComments]);
+
+  // Add a comment to the list once, whether it came from our POST or the socket
+  const addComment = useCallback((comment: PopulatedComment) => {
+    if (knownCommentIdsRef.current.has(comment._id)) return;
+    knownCommentIdsRef.current.add(comment._id);
+    setCommentCount((count) => count + 1);
+    setComments((prevComments) => [comment, ...prevComments]);
+  }, []);
+
+  // Apply an edit to a loaded comment
+  const updateComment = useCallback((comment: PopulatedComment) => {
+    setComments((prevComments) => prevComments.map((c) => (c._id === comment._id ? comment : c)));
+  }, []);
+
+  // Drop a deleted comment; the count comes from the server
+  const removeComment = useCallback((commentId: string, count: number) => {
+    setComments((prevComments) => prevComments.filter((c) => c._id !== commentId));
+    setCommentCount(count);
+  }, []);
 
-  // Socket Listener for Like Updates
+  // Subscribe to this post's room while it is rendered
+  useEffect(() => subscribeToPost(post._id), [subscribeToPost, post._id]);
+
+  // Socket Listener for Reaction Count Updates
+  // The socket is shared by every rendered post, so events are still matched by postId
   useEffect(() => {
     if (!socket || !isConnected) return;
-    const handleLikeUpdate = (data: { postId: string; likes: string[] }) => {
+    const handleReactionsUpdated = (data: { postId: string; reactionCounts: ReactionCounts }) => {
       if (data.postId === post._id) {
-        console.log(`PostItem (${post._id}): Received broadcast 'like_updated'`, data);
-        setLikeCount(data.likes.length);
-        setIsLiked(currentUserId ? data.likes.includes(currentUserId) : false);
+        console.log(`PostItem (${post._id}): Received 'reactions_updated'`, data);
+        setReactionCounts(data.reactionCounts);
       }
     };
-    console.log(`PostItem (${post._id}): Attaching 'like_updated' listener`);
-    socket.on("like_updated", handleLikeUpdate);
+    console.log(`PostItem (${post._id}): Attaching 'reactions_updated' listener`);
+    socket.on("reactions_updated", handleReactionsUpdated);
     return () => {
-      console.log(`PostItem (${post._id}): Detaching 'like_updated' listener`);
-      socket.off("like_updated", handleLikeUpdate);
+      console.log(`PostItem (${post._id}): Detaching 'reactions_updated' listener`);
+      socket.off("reactions_updated", handleReactionsUpdated);
     };
-  }, [socket, isConnected, post._id, currentUserId]);
+  }, [socket, isConnected, post._id]);
 
   // Socket Listener for Comment Updates
    useEffect(() => {
     if (!socket || !isConnected) return;
-    const handleCommentAdded = (data: { postId: string; comment: PopulatedComment }) => {
+    const handleCommentAdded = (data: { postId: string; comment: PopulatedComment; commentCount: number }) => {
         if (data.postId === post._id) {
-            console.log(`PostItem (${post._id}): Received broadcast 'comment_added'`, data.comment);
-            setComments((prevComments) => {
-                if (prevComments.some(c => c._id === data.comment._id)) return prevComments;
-                return [data.comment, ...prevComments];
-            });
+            console.log(`PostItem (${post._id}): Received 'comment_added'`, data.comment);
+            addComment(data.comment);
+            setCommentCount(data.commentCount); // The server's count is authoritative
             setShowComments(true);
         }
     };
-    console.log(`PostItem (${post._id}): Attaching 'comment_added' listener`);
+    const handleCommentUpdated = (data: { postId: string; comment: PopulatedComment }) => {
+        if (data.postId === post._id) updateComment(data.comment);
+    };
+    const handleCommentDeleted = (data: { postId: string; commentId: string; commentCount: number }) => {
+        if (data.postId === post._id) removeComment(data.commentId, data.commentCount);
+    };
+    console.log(`PostItem (${post._id}): Attaching comment listeners`);
     socket.on("comment_added", handleCommentAdded);
+    socket.on("comment_updated", handleCommentUpdated);
+    socket.on("comment_deleted", handleCommentDeleted);
     return () => {
-        console.log(`PostItem (${post._id}): Detaching 'comment_added' listener`);
+        console.log(`PostItem (${post._id}): Detaching comment listeners`);
         socket.off("comment_added", handleCommentAdded);
+        socket.off("comment_updated", handleCommentUpdated);
+        socket.off("comment_deleted", handleCommentDeleted);
+    };
+  }, [socket, isConnected, post._id, addComment, updateComment, removeComment]);
+
+  // Socket Listener for Replies (the thread page adds the reply itself)
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const handleReplyCreated = (data: { postId: string; replyCount: number }) => {
+      if (data.postId === post._id) setReplyCount(data.replyCount);
+    };
+    socket.on("reply_created", handleReplyCreated);
+    return () => {
+      socket.off("reply_created", handleReplyCreated);
+    };
+  }, [socket, isConnected, post._id]);
+
+  // Socket Listener for Repost/Quote Counts, and for the quoted post going away
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const handleSharesUpdated = (data: { postId: string; repostCount: number; quoteCount: number }) => {
+      if (data.postId === post._id) {
+        setRepostCount(data.repostCount);
+        setQuoteCount(data.quoteCount);
+      }
+    };
+    const handlePostDeleted = (data: { postId: string }) => {
+      if (post.quoteOf && data.postId === post.quoteOf._id) setQuotedPostDeleted(true);
+    };
+    socket.on("shares_updated", handleSharesUpdated);
+    socket.on("post_deleted", handlePostDeleted);
+    return () => {
+      socket.off("shares_updated", handleSharesUpdated);
+      socket.off("post_deleted", handlePostDeleted);
+    };
+  }, [socket, isConnected, post._id, post.quoteOf]);
+
+  // Socket Listener for Post Edits
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    const handlePostUpdated = (updatedPost: PostData) => {
+      if (updatedPost._id === post._id) {
+        console.log(`PostItem (${post._id}): Received 'post_updated'`);
+        setContent(updatedPost.content);
+        setMentions(updatedPost.mentions);
+        setImageUrl(updatedPost.imageUrl);
+        setEditedAt(updatedPost.editedAt);
+      }
+    };
+    // The preview is fetched after the post is saved, so it arrives separately
+    const handleLinkPreviewUpdated = (data: { postId: string; linkPreview: ILinkPreviewData | null }) => {
+      if (data.postId === post._id) setLinkPreview(data.linkPreview ?? undefined);
+    };
+    socket.on("post_updated", handlePostUpdated);
+    socket.on("link_preview_updated", handleLinkPreviewUpdated);
+    return () => {
+      socket.off("post_updated", handlePostUpdated);
+      socket.off("link_preview_updated", handleLinkPreviewUpdated);
     };
   }, [socket, isConnected, post._id]);
 
   // --- Handlers ---
-  // Like Handler
-  const handleLikeClick = async () => {
-    if (!currentUserId || isLoadingLike) { return; }
-    setIsLoadingLike(true);
-    try {
-      const response = await axios.patch(`/api/posts/${post._id}/like`);
-      if (response.data.success) {
-        const updatedLikes = response.data.data.likes as string[];
-        const payload = { postId: post._id, likes: updatedLikes };
-        setLikeCount(updatedLikes.length);
-        setIsLiked(currentUserId ? updatedLikes.includes(currentUserId) : false);
-        if (socket && isConnected) {
-            console.log(`PostItem (${post._id}): Emitting 'like_updated_from_client'`, payload);
-            socket.emit("like_updated_from_client", payload);
-        } else { console.warn(`PostItem (${post._id}): Socket not available or connected, cannot emit like update.`); }
-      } else { console.error("Failed to update like status via API:", response.data.message); }
-    } catch (error) { console.error("Error calling like API:", error); }
-    finally { setIsLoadingLike(false); }
+  // Reaction Handler (the picker calls the API)
+  const handleReactionChange = (counts: ReactionCounts, reaction: ReactionType | null) => {
+    setReactionCounts(counts);
+    setViewerReaction(reaction);
   };
 
   // Comment Submit Handler
@@ -181,14 +603,10 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
       const response = await axios.post(`/api/posts/${post._id}/comments`, { text: commentText.trim() });
       if (response.data.success) {
         const newComment = response.data.data as PopulatedComment;
-        setComments((prevComments) => [newComment, ...prevComments]);
+        // The server also broadcasts 'comment_added'; addComment skips whichever arrives second
+        addComment(newComment);
         setCommentText("");
         setShowComments(true);
-        const payload = { postId: post._id, comment: newComment };
-        if (socket && isConnected) {
-            console.log(`PostItem (${post._id}): Emitting 'new_comment_from_client'`, payload);
-            socket.emit("new_comment_from_client", payload);
-        } else { console.warn(`PostItem (${post._id}): Socket not available or connected, cannot emit new comment event.`); }
       } else { setCommentError(response.data.message || "Failed to add comment."); }
     } catch (err: any) {
       console.error("Error submitting comment:", err);
@@ -196,6 +614,127 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
     } finally { setIsSubmittingComment(false); }
   };
 
+  // --- Repost Handler (toggles the viewer's repost) ---
+  const handleRepostToggle = async () => {
+    if (!currentUserId || isReposting) return;
+    setShowShareMenu(false);
+    setIsReposting(true);
+    try {
+      const response = viewerReposted
+        ? await axios.delete(`/api/posts/${post._id}/repost`)
+        : await axios.post(`/api/posts/${post._id}/repost`);
+      if (response.data.success) {
+        setViewerReposted(!viewerReposted);
+        setRepostCount((count) => Math.max(0, count + (viewerReposted ? -1 : 1)));
+      } else {
+        console.error("Failed to update repost via API:", response.data.message);
+      }
+    } catch (error) {
+      console.error(`Error reposting post ${post._id}:`, error);
+    } finally {
+      setIsReposting(false);
+    }
+  };
+
+  // --- Bookmark Handler (toggles the viewer's private bookmark) ---
+  const handleBookmarkToggle = async () => {
+    if (!currentUserId || isBookmarking) return;
+    setIsBookmarking(true);
+    try {
+      const response = viewerBookmarked
+        ? await axios.delete(`/api/posts/${post._id}/bookmark`)
+        : await axios.post(`/api/posts/${post._id}/bookmark`);
+      if (response.data.success) {
+        setViewerBookmarked(response.data.data.bookmarked);
+      } else {
+        console.error("Failed to update bookmark via API:", response.data.message);
+      }
+    } catch (error) {
+      console.error(`Error bookmarking post ${post._id}:`, error);
+    } finally {
+      setIsBookmarking(false);
+    }
+  };
+
+  // --- Pin Handler (pins to, or unpins from, the author's profile) ---
+  const handlePinToggle = async () => {
+    if (!isAuthor || isPinning) return;
+    setIsPinning(true);
+    try {
+      const response = post.isPinned
+        ? await axios.delete(`/api/posts/${post._id}/pin`)
+        : await axios.post(`/api/posts/${post._id}/pin`);
+      if (response.data.success) {
+        onPinChange?.();
+      } else {
+        console.error("Failed to update pin via API:", response.data.message);
+      }
+    } catch (error) {
+      console.error(`Error pinning post ${post._id}:`, error);
+      if (axios.isAxiosError(error)) {
+        alert(`Error: ${error.response?.data?.message || "Could not pin post."}`);
+      }
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  // --- Edit Handlers ---
+  const startEditing = () => {
+    setEditContent(content);
+    setEditImageFile(null);
+    setRemoveImage(false);
+    setEditError(null);
+    setIsEditing(true);
+  };
+
+  const handleEditSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canEdit || isSavingEdit) return;
+    if (!editContent.trim() && media.length === 0) { // Media-only posts may stay without text
+      setEditError("Post content cannot be empty.");
+      return;
+    }
+    setIsSavingEdit(true);
+    setEditError(null);
+
+    try {
+      // Upload a replacement image first, like CreatePostForm does
+      let newImageUrl: string | null | undefined = removeImage ? null : undefined;
+      if (editImageFile) {
+        const formData = new FormData();
+        formData.append("file", editImageFile);
+        const uploadResponse = await axios.post("/api/files/upload", formData, {
+          headers: { "Content-Type": "multipart/form-data" },
+        });
+        if (!uploadResponse.data.success) {
+          throw new Error(uploadResponse.data.message || "Image upload failed.");
+        }
+        newImageUrl = uploadResponse.data.data.fileUrl;
+      }
+
+      const response = await axios.patch(`/api/posts/${post._id}`, {
+        content: editContent.trim(),
+        ...(newImageUrl !== undefined && { imageUrl: newImageUrl }),
+      });
+      if (response.data.success) {
+        setContent(response.data.data.content);
+        setMentions(response.data.data.mentions);
+        setImageUrl(response.data.data.imageUrl);
+        setEditedAt(response.data.data.editedAt);
+        setIsEditing(false);
+      } else {
+        setEditError(response.data.message || "Failed to edit post.");
+      }
+    } catch (err) {
+      console.error(`Error editing post ${post._id}:`, err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : err instanceof Error ? err.message : null;
+      setEditError(message || "An error occurred while editing.");
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
   // --- Delete Handler (Calls onPostDeleted) ---
   const handleDeleteClick = async () => {
     if (!isAuthor || isDeleting) return;
@@ -211,15 +750,7 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
 
       if (response.data.success) {
         console.log(`PostItem (${post._id}): Post deleted via API successfully.`);
-
-        // Emit event for other clients via server
-        if (socket && isConnected) {
-          const payload = { postId: post._id };
-          console.log(`PostItem (${post._id}): Emitting 'delete_post_from_client'`, payload);
-          socket.emit("delete_post_from_client", payload);
-        } else {
-          console.warn(`PostItem (${post._id}): Socket not available, cannot emit delete event.`);
-        }
+        // Other clients receive 'post_deleted' from the server
 
         // --- Call the callback to trigger Feed refresh for the deleting user ---
         onPostDeleted();
@@ -249,7 +780,31 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
     <div className="relative mb-4 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm transition-shadow duration-200 ease-in-out hover:shadow-md">
       {/* Delete Button */}
       {isAuthor && (
-        <div className="absolute right-2 top-2 z-10">
+        <div className="absolute right-2 top-2 z-10 flex items-center space-x-1">
+          {canPin && (
+            <button
+              onClick={handlePinToggle}
+              disabled={isPinning}
+              className={`rounded-full bg-white bg-opacity-80 p-1 hover:bg-indigo-100 hover:text-indigo-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1 disabled:cursor-not-allowed disabled:opacity-50 ${ post.isPinned ? "text-indigo-600" : "text-gray-500" }`}
+              aria-label={post.isPinned ? "Unpin from profile" : "Pin to profile"}
+              title={post.isPinned ? "Unpin from profile" : "Pin to profile"}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill={post.isPinned ? "currentColor" : "none"} viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 3.75l4.5 4.5-3 1.5-3.75 3.75.75 4.5-1.5 1.5-3.75-3.75L4.5 20.25 3.75 19.5l4.5-4.5-3.75-3.75 1.5-1.5 4.5.75 3.75-3.75 1.5-3z" />
+              </svg>
+            </button>
+          )}
+          {canEdit && !isEditing && (
+            <button
+              onClick={startEditing}
+              className="rounded-full bg-white bg-opacity-80 p-1 text-gray-500 hover:bg-indigo-100 hover:text-indigo-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1"
+              aria-label="Edit post"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487z" />
+              </svg>
+            </button>
+          )}
           <button
             onClick={handleDeleteClick}
             disabled={isDeleting}
@@ -271,6 +826,15 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
       )}
       {/* Removed deleteError display */}
 
+      {post.isPinned && (
+        <p className="flex items-center space-x-1 px-4 pt-3 text-xs font-medium text-gray-500">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24" className="h-3.5 w-3.5">
+            <path d="M15.75 3.75l4.5 4.5-3 1.5-3.75 3.75.75 4.5-1.5 1.5-3.75-3.75L4.5 20.25 3.75 19.5l4.5-4.5-3.75-3.75 1.5-1.5 4.5.75 3.75-3.75 1.5-3z" />
+          </svg>
+          <span>Pinned</span>
+        </p>
+      )}
+
       {/* Post Header */}
       <div className="flex items-center space-x-3 p-4">
         <Image src={authorProfilePic} alt={`${authorUsername}'s avatar`} width={40} height={40} className="h-10 w-10 flex-shrink-0 rounded-full object-cover" unoptimized />
@@ -278,31 +842,101 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
           <Link href={`/profile/${authorUsername}`} className="font-semibold text-gray-900 hover:underline">
             {authorUsername}
           </Link>
-          <p className="text-xs text-gray-500">{timeAgo}</p>
+          <p className="text-xs text-gray-500">
+            <Link href={`/posts/${post._id}`} className="hover:underline">
+              {timeAgo}
+            </Link>
+            {editedAt && (
+              <button onClick={() => setShowHistory(true)} className="ml-1 hover:underline" aria-label="View edit history">
+                (edited)
+              </button>
+            )}
+          </p>
         </div>
       </div>
 
-      {/* Post Content */}
-      {post.content && ( <p className="whitespace-pre-wrap px-4 pb-3 text-gray-800">{post.content}</p> )}
+      {post.parent && (
+        <Link href={`/posts/${post.parent.toString()}`} className="-mt-2 block px-4 pb-2 text-xs text-gray-500 hover:underline">
+          Replying to a post
+        </Link>
+      )}
+
+      {/* Post Content (or the edit form) */}
+      {isEditing ? (
+        <form onSubmit={handleEditSubmit} className="space-y-2 px-4 pb-3">
+          <textarea
+            value={editContent}
+            onChange={(e) => setEditContent(e.target.value)}
+            rows={3}
+            maxLength={280}
+            disabled={isSavingEdit}
+            className="w-full resize-none rounded-md border border-gray-300 p-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+            {/* Attachments cannot be edited; only posts without them get the single image controls */}
+            {media.length === 0 && (
+              <label className="cursor-pointer text-indigo-600 hover:text-indigo-500">
+                {imageUrl && !removeImage ? "Replace image" : "Add image"}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  disabled={isSavingEdit}
+                  onChange={(e) => {
+                    setEditImageFile(e.target.files?.[0] ?? null);
+                    setRemoveImage(false);
+                  }}
+                />
+              </label>
+            )}
+            {editImageFile && <span>{editImageFile.name}</span>}
+            {imageUrl && !editImageFile && (
+              <label className="flex items-center space-x-1">
+                <input type="checkbox" checked={removeImage} onChange={(e) => setRemoveImage(e.target.checked)} disabled={isSavingEdit} />
+                <span>Remove image</span>
+              </label>
+            )}
+            <span className="ml-auto">{editContent.length}/280</span>
+          </div>
+          {editError && <p className="text-xs text-red-600">{editError}</p>}
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => setIsEditing(false)} disabled={isSavingEdit} className="rounded px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSavingEdit || (!editContent.trim() && media.length === 0)} className="rounded bg-indigo-600 px-3 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50">
+              {isSavingEdit ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      ) : (
+        content && ( <PostContent content={content} mentions={mentions} className="whitespace-pre-wrap px-4 pb-3 text-gray-800" /> )
+      )}
+
+      {/* Attachments, or the single image of older posts */}
+      {!isEditing && <MediaGrid media={media} />}
+      {imageUrl && !isEditing && ( <div className="border-y border-gray-100 bg-gray-50"><Image src={imageUrl} alt="Post image" width={600} height={400} className="h-auto w-full object-cover" /></div> )}
 
-      {/* Optional Image */}
-      {post.imageUrl && ( <div className="border-y border-gray-100 bg-gray-50"><Image src={post.imageUrl} alt="Post image" width={600} height={400} className="h-auto w-full object-cover" /></div> )}
+      {/* Link Preview (images and quoted posts take its place) */}
+      {linkPreview && !imageUrl && media.length === 0 && !post.quoteOf && !isEditing && <LinkPreviewCard preview={linkPreview} />}
+
+      {/* Quoted Post */}
+      {(post.quoteOf || quotedPostDeleted) && (
+        <div className={imageUrl || media.length > 0 ? "pt-3" : ""}>
+          <QuotedPost post={quotedPostDeleted ? null : post.quoteOf ?? null} />
+        </div>
+      )}
 
       {/* Action Buttons & Counts */}
       <div className="flex items-center justify-between border-t border-gray-100 px-4 py-2 text-gray-500">
-        {/* Like Button */}
-        <button
-          onClick={handleLikeClick}
-          disabled={isLoadingLike || !currentUserId}
-          className={`flex items-center space-x-1 rounded p-1 transition-colors duration-150 ease-in-out focus:outline-none focus:ring-1 focus:ring-pink-400 focus:ring-offset-1 disabled:cursor-not-allowed ${ isLiked ? "text-pink-600 hover:bg-pink-50" : "text-gray-500 hover:bg-gray-100 hover:text-gray-700" }`}
-          aria-pressed={isLiked}
-          aria-label={isLiked ? "Unlike post" : "Like post"}
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" className={`h-5 w-5 ${isLiked ? "fill-pink-600" : "fill-none"}`} stroke={isLiked ? "none" : "currentColor"} strokeWidth={isLiked ? 0 : 1.5} >
-            <path fillRule="evenodd" d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z" clipRule="evenodd" />
-          </svg>
-          <span className="text-sm font-medium">{likeCount}</span>
-        </button>
+        {/* Reactions */}
+        <ReactionPicker
+          postId={post._id}
+          reactionCounts={reactionCounts}
+          viewerReaction={viewerReaction}
+          disabled={!currentUserId}
+          onChange={handleReactionChange}
+          onShowReactions={() => setShowLikes(true)}
+        />
 
         {/* Comment Button */}
         <button
@@ -314,7 +948,59 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5" >
             <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12.76c0 1.6 1.123 2.994 2.707 3.227 1.087.16 2.185.283 3.293.369V21l4.076-4.076a1.526 1.526 0 011.037-.443 48.282 48.282 0 005.68-.494c1.584-.233 2.707-1.626 2.707-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0012 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018z" />
           </svg>
-          <span className="text-sm font-medium">{comments.length}</span>
+          <span className="text-sm font-medium">{commentCount}</span>
+        </button>
+
+        {/* Reply Link (opens the thread view) */}
+        <Link
+          href={`/posts/${post._id}`}
+          className="flex items-center space-x-1 rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-400 focus:ring-offset-1"
+          aria-label="View replies"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+          </svg>
+          <span className="text-sm font-medium">{replyCount}</span>
+        </Link>
+
+        {/* Repost / Quote */}
+        <div className="relative">
+          <button
+            onClick={() => setShowShareMenu(!showShareMenu)}
+            disabled={!currentUserId || isReposting}
+            className={`flex items-center space-x-1 rounded p-1 focus:outline-none focus:ring-1 focus:ring-green-400 focus:ring-offset-1 disabled:cursor-not-allowed ${ viewerReposted ? "text-green-600 hover:bg-green-50" : "text-gray-500 hover:bg-gray-100 hover:text-gray-700" }`}
+            aria-haspopup="true"
+            aria-expanded={showShareMenu}
+            aria-label="Repost or quote"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 12c0-1.232-.046-2.453-.138-3.662a4.006 4.006 0 00-3.7-3.7 48.678 48.678 0 00-7.324 0 4.006 4.006 0 00-3.7 3.7c-.017.22-.032.441-.046.662M19.5 12l3-3m-3 3l-3-3m-12 3c0 1.232.046 2.453.138 3.662a4.006 4.006 0 003.7 3.7 48.656 48.656 0 007.324 0 4.006 4.006 0 003.7-3.7c.017-.22.032-.441.046-.662M4.5 12l3 3m-3-3l-3 3" />
+            </svg>
+            <span className="text-sm font-medium">{repostCount + quoteCount}</span>
+          </button>
+          {showShareMenu && (
+            <div className="absolute bottom-full right-0 z-10 mb-2 w-36 rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg" role="menu">
+              <button onClick={handleRepostToggle} className="block w-full px-3 py-1.5 text-left text-gray-700 hover:bg-gray-100" role="menuitem">
+                {viewerReposted ? "Undo repost" : "Repost"}
+              </button>
+              <button onClick={() => { setShowShareMenu(false); setShowQuoteForm(true); }} className="block w-full px-3 py-1.5 text-left text-gray-700 hover:bg-gray-100" role="menuitem">
+                Quote
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Bookmark (only the viewer ever sees their own bookmarks) */}
+        <button
+          onClick={handleBookmarkToggle}
+          disabled={!currentUserId || isBookmarking}
+          className={`flex items-center rounded p-1 focus:outline-none focus:ring-1 focus:ring-indigo-400 focus:ring-offset-1 disabled:cursor-not-allowed ${ viewerBookmarked ? "text-indigo-600 hover:bg-indigo-50" : "text-gray-500 hover:bg-gray-100 hover:text-gray-700" }`}
+          aria-pressed={viewerBookmarked}
+          aria-label={viewerBookmarked ? "Remove bookmark" : "Bookmark post"}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill={viewerBookmarked ? "currentColor" : "none"} viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-5 w-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0111.186 0z" />
+          </svg>
         </button>
       </div>
 
@@ -325,7 +1011,7 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
           {currentUserId && (
             <form onSubmit={handleCommentSubmit} className="mb-4 flex items-center space-x-2">
               <Image src={session?.user?.image ?? "/default-avatar.png"} alt="Your avatar" width={32} height={32} className="h-8 w-8 flex-shrink-0 rounded-full object-cover" unoptimized />
-              <input type="text" value={commentText} onChange={(e) => setCommentText(e.target.value)} placeholder="Write a comment..." className="flex-1 rounded-full border border-gray-300 px-3 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500" disabled={isSubmittingComment} maxLength={500} />
+              <MentionInput value={commentText} onChange={setCommentText} placeholder="Write a comment..." className="w-full rounded-full border border-gray-300 px-3 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500" disabled={isSubmittingComment} maxLength={500} aria-label="Write a comment" />
               <button type="submit" disabled={isSubmittingComment || !commentText.trim()} className="rounded-full bg-indigo-600 px-3 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50" >
                 {isSubmittingComment ? "..." : "Post"}
               </button>
@@ -335,13 +1021,64 @@ const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted }) => { // Dest
           {/* List of Comments */}
           <div className="max-h-60 overflow-y-auto">
             {comments.length > 0 ? (
-              comments.map((comment) => ( <CommentItem key={comment._id} comment={comment} /> ))
+              comments.map((comment) => (
+                <CommentItem
+                  key={comment._id}
+                  comment={comment}
+                  postId={post._id}
+                  canEdit={!!currentUserId && comment.user?._id === currentUserId}
+                  canDelete={!!currentUserId && (comment.user?._id === currentUserId || isAuthor)}
+                  onUpdated={updateComment}
+                  onDeleted={removeComment}
+                />
+              ))
             ) : (
-              <p className="py-4 text-center text-sm text-gray-500">No comments yet.</p>
+              <p className="py-4 text-center text-sm text-gray-500">
+                {isLoadingComments ? "Loading comments..." : "No comments yet."}
+              </p>
+            )}
+            {hasMoreComments && commentsCursor && (
+              <button
+                onClick={() => fetchComments(commentsCursor)}
+                disabled={isLoadingComments}
+                className="mt-2 w-full text-center text-xs font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+              >
+                {isLoadingComments ? "Loading..." : "Load older comments"}
+              </button>
             )}
           </div>
         </div>
       )}
+
+      {showHistory && <PostHistoryModal postId={post._id} onClose={() => setShowHistory(false)} />}
+      {showLikes && <LikesModal postId={post._id} reactionCounts={reactionCounts} onClose={() => setShowLikes(false)} />}
+      {showQuoteForm && (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-40 p-4" onClick={() => setShowQuoteForm(false)}>
+          <div className="w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+            <CreatePostForm quoteOfId={post._id} onPostCreated={() => setShowQuoteForm(false)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Post Item: reposts render the original under an attribution line ---
+const PostItem: React.FC<PostItemProps> = ({ post, onPostDeleted, onPinChange }) => {
+  if (!post.repostOf) {
+    return <PostCard post={post} onPostDeleted={onPostDeleted} onPinChange={onPinChange} />;
+  }
+  const reposter = post.author?.username ?? "Unknown User";
+  return (
+    <div>
+      <p className="mb-1 flex items-center space-x-1 pl-2 text-xs font-medium text-gray-500">
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-4 w-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 12c0-1.232-.046-2.453-.138-3.662a4.006 4.006 0 00-3.7-3.7 48.678 48.678 0 00-7.324 0 4.006 4.006 0 00-3.7 3.7c-.017.22-.032.441-.046.662M19.5 12l3-3m-3 3l-3-3m-12 3c0 1.232.046 2.453.138 3.662a4.006 4.006 0 003.7 3.7 48.656 48.656 0 007.324 0 4.006 4.006 0 003.7-3.7c.017-.22.032-.441.046-.662M4.5 12l3 3m-3-3l-3 3" />
+        </svg>
+        <Link href={`/profile/${reposter}`} className="hover:underline">{reposter}</Link>
+        <span>reposted</span>
+      </p>
+      <PostCard post={post.repostOf} onPostDeleted={onPostDeleted} />
     </div>
   );
 };
@@ -0,0 +1,119 @@
+// components/ReactionPicker.tsx
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import axios from "axios";
+import { REACTIONS, ReactionCounts, ReactionType } from "@/lib/reactions";
+
+interface ReactionPickerProps {
+  postId: string;
+  reactionCounts: ReactionCounts;
+  viewerReaction: ReactionType | null;
+  disabled?: boolean; // e.g. signed out
+  onChange: (reactionCounts: ReactionCounts, viewerReaction: ReactionType | null) => void;
+  onShowReactions?: () => void; // Clicking the summary opens the list of who reacted
+}
+
+// Reaction button with a popover of the configured reactions and a summary of the counts.
+// Choosing the current reaction again removes it.
+const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  postId,
+  reactionCounts,
+  viewerReaction,
+  disabled = false,
+  onChange,
+  onShowReactions,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the popover on outside clicks
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleSelect = async (type: ReactionType) => {
+    if (isSaving) return;
+    setIsOpen(false);
+    setIsSaving(true);
+    try {
+      const response =
+        type === viewerReaction
+          ? await axios.delete(`/api/posts/${postId}/reactions`)
+          : await axios.put(`/api/posts/${postId}/reactions`, { type });
+      if (response.data.success) {
+        onChange(response.data.data.reactionCounts, response.data.data.viewerReaction);
+      } else {
+        console.error("Failed to update reaction via API:", response.data.message);
+      }
+    } catch (error) {
+      console.error(`Error updating reaction on post ${postId}:`, error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const current = REACTIONS.find((r) => r.type === viewerReaction);
+  const total = REACTIONS.reduce((sum, r) => sum + (reactionCounts[r.type] ?? 0), 0);
+  // Up to three most used reactions for the summary
+  const topReactions = REACTIONS.filter((r) => (reactionCounts[r.type] ?? 0) > 0)
+    .sort((a, b) => (reactionCounts[b.type] ?? 0) - (reactionCounts[a.type] ?? 0))
+    .slice(0, 3);
+
+  return (
+    <div className="relative flex items-center space-x-2" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isSaving}
+        className={`flex items-center space-x-1 rounded p-1 text-sm transition-colors duration-150 ease-in-out focus:outline-none focus:ring-1 focus:ring-pink-400 focus:ring-offset-1 disabled:cursor-not-allowed ${ current ? "font-semibold text-pink-600 hover:bg-pink-50" : "text-gray-500 hover:bg-gray-100 hover:text-gray-700" }`}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={current ? `Your reaction: ${current.label}` : "React to post"}
+      >
+        <span aria-hidden="true">{current ? current.emoji : "👍"}</span>
+        <span>{current ? current.label : "React"}</span>
+      </button>
+
+      {total > 0 && (
+        <button
+          onClick={onShowReactions}
+          disabled={!onShowReactions}
+          className="flex items-center rounded p-1 text-sm text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:cursor-default disabled:hover:bg-transparent"
+          aria-label={`See who reacted (${total})`}
+        >
+          {topReactions.map((r) => (
+            <span key={r.type} aria-hidden="true">{r.emoji}</span>
+          ))}
+          <span className="ml-1 font-medium">{total}</span>
+        </button>
+      )}
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 z-10 mb-2 flex space-x-1 rounded-full border border-gray-200 bg-white px-2 py-1 shadow-lg" role="menu">
+          {REACTIONS.map((r) => (
+            <button
+              key={r.type}
+              onClick={() => handleSelect(r.type)}
+              className={`rounded-full p-1 text-xl transition-transform hover:scale-125 ${ r.type === viewerReaction ? "bg-pink-50" : "" }`}
+              role="menuitem"
+              aria-label={r.label}
+              title={r.label}
+            >
+              {r.emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReactionPicker;
@@ -0,0 +1,54 @@
+// components/TrendingTags.tsx
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import axios from "axios";
+
+interface TrendingTag {
+  tag: string;
+  count: number; // Uses in the current window
+  score: number;
+}
+
+// Compact list of the tags picking up fastest right now
+const TrendingTags: React.FC = () => {
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+
+  useEffect(() => {
+    const fetchTrending = async () => {
+      try {
+        const response = await axios.get("/api/tags", { params: { limit: 5 } });
+        if (response.data.success) {
+          setTags(response.data.data);
+        }
+      } catch (err) {
+        console.error("TrendingTags: Error fetching trending tags:", err);
+      }
+    };
+    fetchTrending();
+  }, []);
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <h2 className="mb-2 text-sm font-semibold text-gray-800">Trending</h2>
+      <ul className="flex flex-wrap gap-2">
+        {tags.map(({ tag, count }) => (
+          <li key={tag}>
+            <Link
+              href={`/tags/${encodeURIComponent(tag)}`}
+              className="inline-block rounded-full bg-indigo-50 px-3 py-1 text-xs font-medium text-indigo-700 hover:bg-indigo-100"
+              title={`${count} recent ${count === 1 ? "post" : "posts"}`}
+            >
+              #{tag}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TrendingTags;
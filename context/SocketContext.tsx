@@ -1,17 +1,27 @@
 // context/SocketContext.tsx
 "use client";
 
-import React, { createContext, useContext, useEffect, useState, useRef } from "react"; // Import useRef
+import React, { createContext, useCallback, useContext, useEffect, useState, useRef } from "react"; // Import useRef
 import { io, Socket } from "socket.io-client";
+import { useSession } from "next-auth/react";
+
+// Position in the server's event log: { epoch, seq } of the last event seen
+interface EventLogPosition {
+  epoch: string;
+  seq: number;
+}
 
 interface ISocketContext {
   socket: Socket | null;
   isConnected: boolean;
+  // Join the post:<id> room while a post is rendered; returns the matching leave
+  subscribeToPost: (postId: string) => () => void;
 }
 
 const SocketContext = createContext<ISocketContext>({
   socket: null,
   isConnected: false,
+  subscribeToPost: () => () => {},
 });
 
 export const useSocket = () => {
@@ -23,19 +33,50 @@ interface SocketProviderProps {
 }
 
 export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
+  // The handshake is authenticated with the NextAuth session cookie,
+  // so the socket is (re)created whenever the signed-in user changes
+  const { data: session, status } = useSession();
+  const userId = session?.user?.id ?? null;
   // Use useRef to hold the socket instance - its reference won't change across renders
   const socketRef = useRef<Socket | null>(null);
   // Still use useState for isConnected, as changes to it SHOULD trigger re-renders
   const [isConnected, setIsConnected] = useState(false);
+  // Ref-counted post rooms: the same post can be rendered more than once
+  const postSubscriptionsRef = useRef<Map<string, number>>(new Map());
+  // Last event seen, kept across reconnects so missed events can be replayed
+  const eventLogPositionRef = useRef<EventLogPosition | null>(null);
+
+  const subscribeToPost = useCallback((postId: string) => {
+    const subscriptions = postSubscriptionsRef.current;
+    const count = subscriptions.get(postId) ?? 0;
+    subscriptions.set(postId, count + 1);
+    if (count === 0 && socketRef.current?.connected) {
+      socketRef.current.emit("join_posts", [postId]);
+    }
+
+    return () => {
+      const remaining = (subscriptions.get(postId) ?? 1) - 1;
+      if (remaining > 0) {
+        subscriptions.set(postId, remaining);
+        return;
+      }
+      subscriptions.delete(postId);
+      if (socketRef.current?.connected) {
+        socketRef.current.emit("leave_posts", [postId]);
+      }
+    };
+  }, []);
 
   useEffect(() => {
     // Prevent running on server
     if (typeof window === "undefined") return;
+    // Wait until we know who is signed in before connecting
+    if (status === "loading") return;
 
     // Initialize ONLY if the ref is currently null (i.e., first mount)
     if (!socketRef.current) {
       const socketIoUrl = process.env.NEXT_PUBLIC_SOCKET_URL || window.location.origin;
-      console.log(`SocketContext: Initializing NEW socket connection to ${socketIoUrl}`);
+      console.log(`SocketContext: Initializing NEW socket connection to ${socketIoUrl} (user: ${userId ?? "anonymous"})`);
 
       // Store the new socket instance in the ref's .current property
       socketRef.current = io(socketIoUrl, {
@@ -43,6 +84,7 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         reconnectionDelay: 5000,
         autoConnect: true,
         transports: ["websocket"],
+        withCredentials: true, // Send the session cookie with the handshake
       });
 
       // --- Event Listeners (attach to socketRef.current) ---
@@ -50,6 +92,11 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         console.log("✅ Socket connected (Client):", socketRef.current?.id);
         setIsConnected(true); // Update state to trigger re-render
         socketRef.current?.emit("hello", "Client connected!");
+        // Rooms do not survive a reconnect, so rejoin everything still rendered
+        const postIds = Array.from(postSubscriptionsRef.current.keys());
+        if (postIds.length > 0) {
+          socketRef.current?.emit("join_posts", postIds);
+        }
       });
 
       socketRef.current.on("disconnect", (reason) => {
@@ -66,12 +113,35 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         console.log("Message from server (Client):", msg);
       });
 
+      // Only adopt the server's position if we have none; otherwise we would
+      // skip past the events we still need to replay
+      socketRef.current.on("event_log_position", (position: EventLogPosition) => {
+        if (!eventLogPositionRef.current) {
+          eventLogPositionRef.current = position;
+        }
+      });
+
+      // Consumers (e.g. Feed) refetch on 'resync_required'; we just move our position
+      socketRef.current.on("resync_required", (position: EventLogPosition) => {
+        console.warn("SocketContext: Missed too many events, resync required");
+        eventLogPositionRef.current = position;
+      });
+
+      // Every logged event carries { epoch, seq } as its second argument
+      socketRef.current.onAny((_event: string, _payload: unknown, meta?: Partial<EventLogPosition>) => {
+        if (!meta || typeof meta.epoch !== "string" || typeof meta.seq !== "number") return;
+        const current = eventLogPositionRef.current;
+        if (!current || current.epoch !== meta.epoch || meta.seq > current.seq) {
+          eventLogPositionRef.current = { epoch: meta.epoch, seq: meta.seq };
+        }
+      });
+
     } // End of initialization block
 
-    // --- Cleanup function for when the SocketProvider unmounts ---
+    // --- Cleanup function for when the SocketProvider unmounts or the user changes ---
     return () => {
-      // Check if socket exists and is connected before disconnecting
-      if (socketRef.current?.connected) {
+      // Disconnect even if still connecting, so no stale socket lingers
+      if (socketRef.current) {
         console.log("🧹 SocketProvider Unmount: Disconnecting socket...");
         socketRef.current.disconnect();
       }
@@ -81,12 +151,20 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       setIsConnected(false); // Reset connection state
       console.log("🧹 SocketProvider Unmount: Cleanup complete.");
     };
-  }, []); // Empty dependency array: runs effect once on mount, cleanup on unmount
+  }, [status, userId]); // Reconnect with fresh credentials on login/logout
+
+  // Ask for missed events once connected. Child effects run before this one,
+  // so components have re-attached their listeners by the time replays arrive.
+  useEffect(() => {
+    if (!isConnected || !socketRef.current || !eventLogPositionRef.current) return;
+    console.log("SocketContext: Requesting replay since", eventLogPositionRef.current);
+    socketRef.current.emit("replay_events", eventLogPositionRef.current);
+  }, [isConnected]);
 
   // Provide the current socket instance from the ref and the connection status
   // The socketRef.current reference is stable across provider re-renders
   return (
-    <SocketContext.Provider value={{ socket: socketRef.current, isConnected }}>
+    <SocketContext.Provider value={{ socket: socketRef.current, isConnected, subscribeToPost }}>
       {children}
     </SocketContext.Provider>
   );
@@ -0,0 +1,132 @@
+// lib/fileType.ts
+
+/**
+ * Content sniffing for uploads. The type a browser sends with a file comes
+ * from its name, and clients can send anything, so the stored type and
+ * extension are derived from the file's leading bytes instead.
+ */
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "avif";
+export type VideoFormat = "mp4" | "webm";
+export type MediaFormat = ImageFormat | VideoFormat;
+
+// What a stored file of each format is served and named as
+export const IMAGE_FORMATS: Record<ImageFormat, { contentType: string; extension: string }> = {
+  jpeg: { contentType: "image/jpeg", extension: ".jpg" },
+  png: { contentType: "image/png", extension: ".png" },
+  gif: { contentType: "image/gif", extension: ".gif" },
+  webp: { contentType: "image/webp", extension: ".webp" },
+  avif: { contentType: "image/avif", extension: ".avif" },
+};
+
+export const VIDEO_FORMATS: Record<VideoFormat, { contentType: string; extension: string }> = {
+  mp4: { contentType: "video/mp4", extension: ".mp4" },
+  webm: { contentType: "video/webm", extension: ".webm" },
+};
+
+const MEDIA_FORMATS = { ...IMAGE_FORMATS, ...VIDEO_FORMATS };
+
+export function isVideoFormat(format: MediaFormat): format is VideoFormat {
+  return format in VIDEO_FORMATS;
+}
+
+// ISO-BMFF brands of plain MP4 video (not QuickTime, HEIC or AVIF)
+const MP4_BRANDS = new Set(["isom", "iso2", "iso4", "iso5", "iso6", "mp41", "mp42", "avc1", "dash", "M4V "]);
+
+// Non-standard types browsers and OSes send for the same formats
+const CONTENT_TYPE_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+// Brands listed in the leading "ftyp" box of an ISO-BMFF file (AVIF, MP4, ...)
+function ftypBrands(bytes: Uint8Array): string[] {
+  if (bytes.length < 16 || ascii(bytes, 4, 8) !== "ftyp") return [];
+  const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  const end = Math.min(boxSize, bytes.length);
+  const brands: string[] = [];
+  // Major brand at 8, minor version at 12, then compatible brands
+  for (let offset = 8; offset + 4 <= end; offset += offset === 8 ? 8 : 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+  return brands;
+}
+
+// WebM is EBML (Matroska's container) with the "webm" DocType in its header
+function isWebm(bytes: Uint8Array): boolean {
+  return startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3]) && ascii(bytes, 4, 64).includes("webm");
+}
+
+// The image format the bytes actually are, or null for anything else
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "webp";
+  const brands = ftypBrands(bytes);
+  if (brands.includes("avif") || brands.includes("avis")) return "avif";
+  return null;
+}
+
+// The video format the bytes actually are, or null for anything else
+export function sniffVideoFormat(bytes: Uint8Array): VideoFormat | null {
+  const brands = ftypBrands(bytes);
+  // AVIF, HEIC and QuickTime files are ISO-BMFF too; only plain MP4 brands count
+  if (brands.length > 0 && !brands.includes("avif") && !brands.includes("qt  ") && brands.some((brand) => MP4_BRANDS.has(brand))) {
+    return "mp4";
+  }
+  if (isWebm(bytes)) return "webm";
+  return null;
+}
+
+// SVG is XML text that can carry scripts, so it gets its own rejection message
+function looksLikeSvg(bytes: Uint8Array): boolean {
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).replace(/^\uFEFF/, "").trimStart().toLowerCase();
+  return head.startsWith("<svg") || ((head.startsWith("<?xml") || head.startsWith("<!doctype svg")) && head.includes("<svg"));
+}
+
+// Rejects a detected format when the client declared a different one
+function checkDeclaredType(format: MediaFormat, declaredType: string): string | null {
+  const declared = declaredType.toLowerCase().split(";")[0].trim();
+  const normalized = CONTENT_TYPE_ALIASES[declared] ?? declared;
+  if (normalized && normalized !== "application/octet-stream" && normalized !== MEDIA_FORMATS[format].contentType) {
+    return "File content does not match its type.";
+  }
+  return null;
+}
+
+/**
+ * Checks an uploaded file's bytes against the type it was sent with. Returns
+ * the detected format, or an error message for a 400 response when the bytes
+ * are not a supported image or do not match a declared image type.
+ */
+export function validateImageUpload(bytes: Uint8Array, declaredType: string): { format: ImageFormat } | { error: string } {
+  const format = sniffImageFormat(bytes);
+  if (!format) {
+    if (looksLikeSvg(bytes)) return { error: "SVG images are not supported." };
+    return { error: "Invalid file type. Only JPEG, PNG, GIF, WebP and AVIF images are allowed." };
+  }
+  const mismatch = checkDeclaredType(format, declaredType);
+  return mismatch ? { error: mismatch } : { format };
+}
+
+// Like validateImageUpload, also accepting MP4 and WebM video (post attachments)
+export function validateMediaUpload(bytes: Uint8Array, declaredType: string): { format: MediaFormat } | { error: string } {
+  const video = sniffVideoFormat(bytes);
+  if (!video) {
+    const image = validateImageUpload(bytes, declaredType);
+    if ("error" in image && !sniffImageFormat(bytes) && !looksLikeSvg(bytes)) {
+      return { error: "Invalid file type. Only images and MP4 or WebM videos are allowed." };
+    }
+    return image;
+  }
+  const mismatch = checkDeclaredType(video, declaredType);
+  return mismatch ? { error: mismatch } : { format: video };
+}
@@ -0,0 +1,207 @@
+// lib/gridfs.ts
+import { GridFSBucket, MongoClient, Db, GridFSFile, Document } from "mongodb";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { ImageVariant } from "@/lib/media";
+import { ImagePipelineResult, ProcessedImage } from "@/lib/images";
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  throw new Error(
+    "Please define the MONGODB_URI environment variable inside .env.local"
+  );
+}
+
+// Uploaded files are served from here (see app/api/files/[filename])
+export const FILE_URL_PREFIX = "/api/files/";
+
+// --- Database Connection Caching (same pattern as the file routes) ---
+let clientPromise: Promise<MongoClient> | null = null;
+
+async function getDb(): Promise<Db> {
+  if (!clientPromise) {
+    console.log("GridFS: Creating new MongoClient promise");
+    const client = new MongoClient(MONGODB_URI!);
+    clientPromise = client.connect().catch((err) => {
+      clientPromise = null;
+      console.error("GridFS: Initial connection failed", err);
+      throw err;
+    });
+  }
+  try {
+    const client = await clientPromise;
+    const url = new URL(MONGODB_URI!);
+    const dbNameFromUri = url.pathname.substring(1).split("?")[0];
+    const dbName = dbNameFromUri || "test";
+    return client.db(dbName);
+  } catch (error) {
+    console.error("❌ GridFS: Failed to get DB instance:", error);
+    clientPromise = null;
+    throw error;
+  }
+}
+// --- End Database Connection Caching ---
+
+// The bucket all uploads are stored in
+export async function getUploadsBucket(): Promise<GridFSBucket> {
+  return new GridFSBucket(await getDb(), { bucketName: "uploads" });
+}
+
+// The stored filename behind a /api/files/ URL (ignoring any ?variant=),
+// or null for any other URL
+export function filenameFromUrl(url: string | undefined | null): string | null {
+  if (!url || !url.startsWith(FILE_URL_PREFIX)) return null;
+  const filename = url.slice(FILE_URL_PREFIX.length).split("?")[0];
+  return filename && !filename.includes("/") ? filename : null;
+}
+
+// Metadata stored on an uploaded original image or video
+export interface UploadMetadata {
+  uploaderId: string;
+  width?: number;
+  height?: number;
+  variants?: Partial<Record<ImageVariant, string>>; // Filenames of the resized copies
+  poster?: string; // Filename of the still frame, for videos and animated images
+  duration?: number; // Seconds
+}
+
+// Write one file to the uploads bucket
+async function storeFile(filename: string, data: Buffer, contentType: string, metadata: Document): Promise<void> {
+  const bucket = await getUploadsBucket();
+  const uploadStream = bucket.openUploadStream(filename, { contentType, metadata });
+  await new Promise<void>((resolve, reject) => {
+    Readable.from([data])
+      .pipe(uploadStream)
+      .on("error", (error) => reject(error))
+      .on("finish", () => resolve());
+  });
+}
+
+/**
+ * Stores a processed image: the original under a random name, and each
+ * rendition as "<name>-<variant>" pointing back at it (metadata.variantOf).
+ * Returns the original's filename. If any write fails, the files already
+ * written are deleted before the error is rethrown.
+ */
+export async function storeImage(image: ImagePipelineResult, uploaderId: string): Promise<string> {
+  const baseName = crypto.randomBytes(16).toString("hex");
+  const filename = baseName + image.original.extension;
+
+  try {
+    const variants: UploadMetadata["variants"] = {};
+    for (const [variant, rendition] of Object.entries(image.renditions) as [ImageVariant, ProcessedImage][]) {
+      const variantFilename = `${baseName}-${variant}${rendition.extension}`;
+      await storeFile(variantFilename, rendition.data, rendition.contentType, {
+        uploaderId,
+        variantOf: filename,
+        variant,
+        width: rendition.width,
+        height: rendition.height,
+      });
+      variants[variant] = variantFilename;
+    }
+    const poster = image.poster ? await storePoster(baseName, filename, image.poster, uploaderId) : undefined;
+
+    const metadata: UploadMetadata = {
+      uploaderId,
+      width: image.original.width,
+      height: image.original.height,
+      variants,
+      poster,
+      duration: image.duration,
+    };
+    await storeFile(filename, image.original.data, image.original.contentType, metadata);
+    return filename;
+  } catch (error) {
+    await discardPartialUpload(filename, uploaderId);
+    throw error;
+  }
+}
+
+// Store a poster frame as "<name>-poster" beside the file it belongs to
+async function storePoster(baseName: string, filename: string, poster: ProcessedImage, uploaderId: string): Promise<string> {
+  const posterFilename = `${baseName}-poster${poster.extension}`;
+  await storeFile(posterFilename, poster.data, poster.contentType, {
+    uploaderId,
+    variantOf: filename,
+    variant: "poster",
+    width: poster.width,
+    height: poster.height,
+  });
+  return posterFilename;
+}
+
+/**
+ * Stores an uploaded video as-is (it is served in ranges, not re-encoded),
+ * with its poster frame stored beside it like an image rendition. Returns
+ * the video's filename; like storeImage, cleans up after a failed write.
+ */
+export async function storeVideo(
+  video: { data: Buffer; contentType: string; extension: string; width: number; height: number; duration: number; poster: ProcessedImage },
+  uploaderId: string
+): Promise<string> {
+  const baseName = crypto.randomBytes(16).toString("hex");
+  const filename = baseName + video.extension;
+  try {
+    const poster = await storePoster(baseName, filename, video.poster, uploaderId);
+
+    const metadata: UploadMetadata = {
+      uploaderId,
+      width: video.width,
+      height: video.height,
+      poster,
+      duration: video.duration,
+    };
+    await storeFile(filename, video.data, video.contentType, metadata);
+    return filename;
+  } catch (error) {
+    await discardPartialUpload(filename, uploaderId);
+    throw error;
+  }
+}
+
+// Remove whatever part of a failed upload made it into the bucket: the
+// original if it was written, and every copy pointing back at it
+async function discardPartialUpload(filename: string, uploaderId: string): Promise<void> {
+  console.warn(`GridFS Upload: Storing ${filename} failed, removing the files already written`);
+  await deleteUploads([filename], uploaderId);
+}
+
+// Files with these names that `uploaderId` uploaded, keyed by filename
+export async function findUploads(filenames: string[], uploaderId: string): Promise<Map<string, GridFSFile>> {
+  const bucket = await getUploadsBucket();
+  const files = await bucket
+    .find({ filename: { $in: filenames }, "metadata.uploaderId": uploaderId })
+    .toArray();
+  return new Map(files.map((file) => [file.filename, file]));
+}
+
+/**
+ * Deletes the files with these names that `uploaderId` uploaded, along with
+ * their resized copies and posters. Files belonging to anyone else are left alone, so a
+ * post can never take another user's upload with it. Never throws: the
+ * caller's main work is done by now, and orphaned files can be cleaned up later.
+ */
+export async function deleteUploads(filenames: string[], uploaderId: string): Promise<void> {
+  if (filenames.length === 0) return;
+  try {
+    const bucket = await getUploadsBucket();
+    const files = await bucket
+      .find({
+        $or: [{ filename: { $in: filenames } }, { "metadata.variantOf": { $in: filenames } }],
+        "metadata.uploaderId": uploaderId,
+      })
+      .toArray();
+    for (const file of files) {
+      await bucket.delete(file._id);
+      console.log(`GridFS Delete: Deleted ${file.filename} (ID: ${file._id})`);
+    }
+    const missing = filenames.filter((name) => !files.some((file) => file.filename === name));
+    if (missing.length > 0) {
+      console.warn(`GridFS Delete: ${missing.join(", ")} not found for uploader ${uploaderId}`);
+    }
+  } catch (error) {
+    console.error(`GridFS Delete Error for files ${filenames.join(", ")}:`, error);
+  }
+}
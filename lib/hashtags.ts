@@ -0,0 +1,34 @@
+// lib/hashtags.ts
+
+// Longest tag we index; longer runs are cut off at this length
+export const MAX_HASHTAG_LENGTH = 50;
+
+// At most this many distinct tags are stored per post
+export const MAX_HASHTAGS_PER_POST = 10;
+
+// "#" followed by letters, digits and underscores, not preceded by a word
+// character or "&" (so "a#b" and "&#39;" are not tags). Shared by the server,
+// which stores the tags, and PostContent, which links them.
+export const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu;
+
+// Lower-cased, Unicode-normalized form used for storage, URLs and lookups,
+// so "#Café", "#CAFÉ" and "#café" are the same tag
+export function normalizeHashtag(tag: string): string {
+  return tag.replace(/^#/, "").normalize("NFKC").toLowerCase().slice(0, MAX_HASHTAG_LENGTH);
+}
+
+// A tag needs at least one letter or underscore: "#1" is a number, not a tag
+export function isValidHashtag(tag: string): boolean {
+  return /^[\p{L}\p{N}_]+$/u.test(tag) && !/^\p{N}+$/u.test(tag);
+}
+
+// Distinct normalized tags in the order they first appear in `content`
+export function extractHashtags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    const tag = normalizeHashtag(match[2]);
+    if (isValidHashtag(tag)) tags.add(tag);
+    if (tags.size === MAX_HASHTAGS_PER_POST) break;
+  }
+  return [...tags];
+}
@@ -0,0 +1,114 @@
+// lib/images.ts
+import sharp from "sharp";
+import { IMAGE_VARIANTS, ImageVariant } from "@/lib/media";
+import { IMAGE_FORMATS, ImageFormat } from "@/lib/fileType";
+
+// Refuse to decode anything larger (about a 8000x5000 photo); keeps memory bounded
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const RENDITION_QUALITY = 80;
+
+const POSTER_FORMAT = IMAGE_FORMATS.jpeg;
+
+export interface ProcessedImage {
+  data: Buffer;
+  contentType: string;
+  extension: string; // Including the dot
+  width: number;
+  height: number;
+}
+
+export interface ImagePipelineResult {
+  original: ProcessedImage;
+  renditions: Partial<Record<ImageVariant, ProcessedImage>>; // Only variants narrower than the original
+  poster?: ProcessedImage; // First frame, for animated images
+  duration?: number; // Seconds of one loop, for animated images
+}
+
+/**
+ * Decodes an uploaded image of the sniffed `format` (see lib/fileType) and
+ * re-encodes it in that format for storage:
+ * - orientation from EXIF is applied to the pixels,
+ * - all metadata (EXIF, GPS, XMP, ICC) is dropped; colors are converted to sRGB,
+ * - a WebP rendition is made for each IMAGE_VARIANTS width below the original's.
+ * Animated images (GIF, WebP) keep their frames and also get a JPEG poster of
+ * the first frame and their duration. Input that is not an image we accept
+ * gives an error message for a 400 response.
+ */
+export async function processImage(input: Buffer, format: ImageFormat): Promise<ImagePipelineResult | { error: string }> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    return { error: "The file is not a readable image." };
+  }
+
+  // The decoder must agree with the sniffed signature (sharp reports AVIF as "heif")
+  const decodedFormat = metadata.format === "heif" && metadata.compression === "av1" ? "avif" : metadata.format;
+  if (decodedFormat !== format) {
+    return { error: "File content does not match its type." };
+  }
+  const output = IMAGE_FORMATS[format];
+
+  const animated = (metadata.pages ?? 1) > 1;
+  const load = () => sharp(input, { limitInputPixels: MAX_INPUT_PIXELS, animated }).rotate();
+
+  let original: ProcessedImage;
+  try {
+    const { data, info } = await load()
+      .toFormat(format)
+      .toBuffer({ resolveWithObject: true });
+    // For animations info.height is the whole frame strip; pageHeight is one frame
+    original = { data, ...output, width: info.width, height: animated ? metadata.pageHeight ?? info.height : info.height };
+  } catch (error) {
+    console.error("Image Pipeline: Failed to re-encode image:", error);
+    return { error: "The image could not be processed." };
+  }
+
+  const renditions: ImagePipelineResult["renditions"] = {};
+  for (const [variant, maxWidth] of Object.entries(IMAGE_VARIANTS) as [ImageVariant, number][]) {
+    if (original.width <= maxWidth) continue; // Would only be a copy of the original
+    const { data, info } = await load()
+      .resize({ width: maxWidth, withoutEnlargement: true })
+      .webp({ quality: RENDITION_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    renditions[variant] = {
+      data,
+      contentType: "image/webp",
+      extension: ".webp",
+      width: info.width,
+      height: animated ? Math.round((original.height * info.width) / original.width) : info.height,
+    };
+  }
+
+  if (!animated) return { original, renditions };
+
+  const poster = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS, pages: 1 })
+    .jpeg({ quality: RENDITION_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+  const durationMs = (metadata.delay ?? []).reduce((total, delay) => total + delay, 0);
+  return {
+    original,
+    renditions,
+    poster: { data: poster.data, ...POSTER_FORMAT, width: poster.info.width, height: poster.info.height },
+    duration: durationMs > 0 ? durationMs / 1000 : undefined,
+  };
+}
+
+/**
+ * Turns a raw frame (e.g. grabbed from a video by lib/video) into a stored
+ * JPEG poster: metadata dropped and the width capped at the largest variant.
+ */
+export async function processPoster(frame: Buffer): Promise<ProcessedImage | null> {
+  try {
+    const { data, info } = await sharp(frame, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize({ width: IMAGE_VARIANTS.full, withoutEnlargement: true })
+      .jpeg({ quality: RENDITION_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    return { data, ...POSTER_FORMAT, width: info.width, height: info.height };
+  } catch (error) {
+    console.error("Image Pipeline: Failed to encode poster frame:", error);
+    return null;
+  }
+}
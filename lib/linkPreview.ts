@@ -0,0 +1,316 @@
+// lib/linkPreview.ts
+import http from "http";
+import https from "https";
+import net from "net";
+import dns from "dns";
+import { LookupFunction } from "net";
+import Post from "@/models/Post";
+import LinkPreview, { ILinkPreviewData } from "@/models/LinkPreview";
+import { extractFirstLink } from "@/lib/links";
+import { emitSocketEvent, postRoom } from "@/lib/socketInstance";
+
+/**
+ * Server-side Open Graph / Twitter card fetching for the first link in a post.
+ *
+ * Fetching arbitrary URLs from the server is an SSRF risk, so requests:
+ * - only go to http(s) on the default ports,
+ * - never connect to private, loopback, link-local or otherwise reserved
+ *   addresses; the check runs on the address actually connected to (in the
+ *   socket's DNS lookup), so DNS rebinding cannot slip past it,
+ * - follow a few redirects, re-checking each hop,
+ * - give up after a timeout and stop reading after a size cap.
+ */
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_BODY_BYTES = 512 * 1024; // Metadata lives in <head>; no need for the whole page
+const MAX_REDIRECTS = 3;
+const ALLOWED_PORTS = new Set(["", "80", "443"]);
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Refetch a week later
+const FAILED_TTL_MS = 60 * 60 * 1000; // Retry failed links after an hour
+const USER_AGENT = "FancySocialBot/1.0 (+link previews)";
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// Addresses a preview fetch must never reach. IPv4-mapped IPv6 addresses
+// (::ffff:10.0.0.1) are checked against the IPv4 rules by BlockList itself.
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local (incl. cloud metadata endpoints)
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4"));
+[
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b::", 96], // NAT64
+  ["100::", 64], // Discard
+  ["2001:db8::", 32], // Documentation
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6"));
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true; // Not an IP at all
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Which addresses and ports a fetch may connect to. Every fetch runs the same
+// checks; tests substitute a policy that also admits their fixture server.
+export interface AddressPolicy {
+  isBlockedAddress: (address: string) => boolean;
+  isAllowedPort: (port: string) => boolean; // "" for the protocol's default port
+}
+
+const DEFAULT_POLICY: AddressPolicy = {
+  isBlockedAddress,
+  isAllowedPort: (port) => ALLOWED_PORTS.has(port),
+};
+
+// DNS lookup for the preview sockets: resolves as usual, then refuses the
+// connection if any resolved address is blocked
+const safeLookup = (policy: AddressPolicy): LookupFunction => (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0 || list.some((entry) => policy.isBlockedAddress(entry.address))) {
+      return callback(new Error(`Refusing to fetch ${hostname}: blocked address`), "", 0);
+    }
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+// Limits for one fetch (tests shrink them)
+export interface FetchOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  policy?: AddressPolicy;
+}
+
+// Throws unless `url` is something a preview may be fetched from
+function assertFetchable(url: URL, policy: AddressPolicy): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+  if (!policy.isAllowedPort(url.port)) {
+    throw new Error(`Port ${url.port} is not allowed`);
+  }
+  if (url.username || url.password) {
+    throw new Error("URLs with credentials are not fetched");
+  }
+  // IP literals never go through the lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && policy.isBlockedAddress(host)) {
+    throw new Error(`Refusing to fetch ${host}: blocked address`);
+  }
+}
+
+// GET an HTML page, following redirects, up to MAX_BODY_BYTES
+export function fetchHtml(
+  target: string,
+  options: FetchOptions = {},
+  redirectsLeft = MAX_REDIRECTS
+): Promise<{ html: string; finalUrl: string }> {
+  const { timeoutMs = FETCH_TIMEOUT_MS, maxBytes = MAX_BODY_BYTES, policy = DEFAULT_POLICY } = options;
+
+  return new Promise((resolve, reject) => {
+    let url: URL;
+    try {
+      url = new URL(target);
+      assertFetchable(url, policy);
+    } catch (error) {
+      return reject(error);
+    }
+
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.get(
+      url,
+      {
+        lookup: safeLookup(policy),
+        headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" },
+        timeout: timeoutMs,
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+
+        // Redirects: check the next hop like the first one
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          if (redirectsLeft <= 0) return reject(new Error("Too many redirects"));
+          const next = new URL(response.headers.location, url).toString();
+          return resolve(fetchHtml(next, options, redirectsLeft - 1));
+        }
+        if (status < 200 || status >= 300) {
+          response.resume();
+          return reject(new Error(`HTTP ${status}`));
+        }
+        const contentType = response.headers["content-type"] ?? "";
+        if (!/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+          response.resume();
+          return reject(new Error(`Not an HTML page (${contentType || "no content type"})`));
+        }
+
+        // Read until the size cap; the <head> is near the top anyway
+        const chunks: Buffer[] = [];
+        let received = 0;
+        response.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          received += chunk.length;
+          if (received >= maxBytes) response.destroy();
+        });
+        const finish = () => resolve({ html: Buffer.concat(chunks).subarray(0, maxBytes).toString("utf8"), finalUrl: url.toString() });
+        response.on("end", finish);
+        response.on("close", finish); // Also fires when we stop at the cap
+        response.on("error", reject);
+      }
+    );
+
+    // The socket timeout only covers idle time; cap the whole exchange too
+    const deadline = setTimeout(() => request.destroy(new Error("Timed out")), timeoutMs);
+    request.on("timeout", () => request.destroy(new Error("Timed out")));
+    request.on("error", reject);
+    request.on("close", () => clearTimeout(deadline));
+  });
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number): string | undefined {
+  if (!value) return undefined;
+  const text = decodeEntities(value).replace(/\s+/g, " ").trim();
+  if (!text) return undefined;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Reads og:* / twitter:* meta tags (and <title>) from the page's <head>
+export function parseMetadata(html: string, pageUrl: string): Omit<ILinkPreviewData, "url"> {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const [, name, , doubleQuoted, singleQuoted, bare] of tag.matchAll(/([a-z:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/gi)) {
+      attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted ?? bare ?? "");
+    }
+    const key = (attributes.get("property") ?? attributes.get("name"))?.toLowerCase();
+    const content = attributes.get("content");
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+  const titleTag = head.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+
+  // Only absolute http(s) images; relative ones are resolved against the page
+  let image: string | undefined;
+  const rawImage = meta.get("og:image") ?? meta.get("og:image:url") ?? meta.get("twitter:image");
+  if (rawImage) {
+    try {
+      const imageUrl = new URL(decodeEntities(rawImage), pageUrl);
+      if (imageUrl.protocol === "http:" || imageUrl.protocol === "https:") image = imageUrl.toString();
+    } catch {
+      // Unusable image URL: show the card without it
+    }
+  }
+
+  return {
+    title: clean(meta.get("og:title") ?? meta.get("twitter:title") ?? titleTag, MAX_TITLE_LENGTH),
+    description: clean(
+      meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description"),
+      MAX_DESCRIPTION_LENGTH
+    ),
+    image,
+    siteName: clean(meta.get("og:site_name"), MAX_TITLE_LENGTH),
+  };
+}
+
+/**
+ * The preview for a normalized URL: from the cache while fresh, otherwise
+ * fetched and cached. Returns null when the page has nothing to show or
+ * could not be fetched.
+ */
+export async function getLinkPreview(url: string): Promise<ILinkPreviewData | null> {
+  const cached = await LinkPreview.findOne({ url }).lean();
+  if (cached) {
+    const ttl = cached.status === "ok" ? PREVIEW_TTL_MS : FAILED_TTL_MS;
+    if (Date.now() - cached.fetchedAt.getTime() < ttl) {
+      return cached.status === "ok"
+        ? { url, title: cached.title, description: cached.description, image: cached.image, siteName: cached.siteName }
+        : null;
+    }
+  }
+
+  let preview: ILinkPreviewData | null = null;
+  try {
+    const { html, finalUrl } = await fetchHtml(url);
+    const metadata = parseMetadata(html, finalUrl);
+    if (metadata.title) preview = { url, ...metadata }; // No title, no card
+  } catch (error) {
+    console.warn(`Link Preview: Could not fetch ${url}:`, error instanceof Error ? error.message : error);
+  }
+
+  await LinkPreview.updateOne(
+    { url },
+    {
+      $set: {
+        status: preview ? "ok" : "failed",
+        title: preview?.title,
+        description: preview?.description,
+        image: preview?.image,
+        siteName: preview?.siteName,
+        fetchedAt: new Date(),
+      },
+    },
+    { upsert: true }
+  );
+  return preview;
+}
+
+/**
+ * Sets (or clears) the preview for the first link in a post's content and
+ * pushes it to everyone viewing the post. Runs after the post is saved so a
+ * slow site never delays posting. Never throws.
+ */
+export async function refreshPostLinkPreview(postId: string, content: string): Promise<void> {
+  try {
+    const url = extractFirstLink(content);
+    const linkPreview = url ? await getLinkPreview(url) : null;
+
+    // Skip the write if the post was edited to another link meanwhile
+    const current = await Post.findById(postId).select("content").lean();
+    if (!current || current.content !== content) return;
+
+    await Post.updateOne(
+      { _id: postId },
+      linkPreview ? { $set: { linkPreview } } : { $unset: { linkPreview: 1 } }
+    );
+    emitSocketEvent("link_preview_updated", { postId, linkPreview }, postRoom(postId));
+  } catch (error) {
+    console.error(`Link Preview: Failed to update post ${postId}:`, error);
+  }
+}
@@ -0,0 +1,33 @@
+// lib/links.ts
+
+// http(s) URLs in post text. Trailing punctuation is trimmed separately so
+// "see https://example.com." links to the site, not "example.com.".
+export const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}'"]+$/;
+
+// A matched URL without sentence punctuation stuck to its end
+export function trimLink(match: string): string {
+  return match.replace(TRAILING_PUNCTUATION, "");
+}
+
+// Canonical form used as the preview cache key: http(s) only, no fragment
+export function normalizeLink(value: string): string | null {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// The first link in `text` that gets a preview card, or null
+export function extractFirstLink(text: string): string | null {
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const url = normalizeLink(trimLink(match[0]));
+    if (url) return url;
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+// lib/media.ts
+
+// Attachments a single post may carry
+export const MAX_MEDIA_PER_POST = 4;
+
+// Alt text is for screen readers; keep it to a short description
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+// Upload size caps. Videos and GIFs get a larger one, configurable with
+// NEXT_PUBLIC_MAX_VIDEO_UPLOAD_MB so the composer can check it before uploading.
+export const MAX_IMAGE_UPLOAD_MB = 10;
+export const MAX_VIDEO_UPLOAD_MB = parseInt(process.env.NEXT_PUBLIC_MAX_VIDEO_UPLOAD_MB || "50", 10);
+
+// Clips are meant to be short; longer videos are rejected at upload
+export const MAX_VIDEO_DURATION_SECONDS = 140;
+
+// One attachment on a post, in display order
+export interface PostMedia {
+  url: string; // /api/files/<filename> of the uploaded file
+  alt: string; // Alt text written by the author ("" when none was given)
+  width: number; // Pixel dimensions, so the grid can lay out before the image loads
+  height: number;
+  contentType: string; // Stored content type of the uploaded file
+  posterUrl?: string; // Still frame shown before a video or GIF plays
+  duration?: number; // Seconds, for videos and animated GIFs
+}
+
+// Videos are posted alone, not mixed into an image grid
+export function isVideoMedia(item: Pick<PostMedia, "contentType">): boolean {
+  return item.contentType.startsWith("video/");
+}
+
+// Resized copies made of every uploaded image, by name and maximum width.
+// Served by /api/files/<filename>?variant=<name>; an image narrower than a
+// variant has no copy for it and the original is served instead.
+export const IMAGE_VARIANTS = {
+  thumb: 320,
+  feed: 1080,
+  full: 2048,
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export function isImageVariant(value: string): value is ImageVariant {
+  return Object.prototype.hasOwnProperty.call(IMAGE_VARIANTS, value);
+}
+
+// next/image loader for uploaded files: picks the smallest variant at least
+// as wide as requested, so the generated srcset points at the renditions
+export function uploadedImageLoader({ src, width }: { src: string; width: number }): string {
+  const variants = Object.entries(IMAGE_VARIANTS) as [ImageVariant, number][];
+  const variant = variants.find(([, maxWidth]) => maxWidth >= width)?.[0] ?? "full";
+  return `${src}?variant=${variant}`;
+}
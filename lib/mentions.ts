@@ -0,0 +1,29 @@
+// lib/mentions.ts
+
+// At most this many distinct users are resolved (and notified) per post or comment
+export const MAX_MENTIONS_PER_TEXT = 10;
+
+// "@" followed by a username, not preceded by a word character or "@" (so
+// email addresses are not mentions). Dots and hyphens are allowed inside a
+// name but not at its end, so "@alice." mentions alice. Shared by the server,
+// which resolves mentions when text is saved, and PostContent, which links them.
+export const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_]+(?:[.-][\p{L}\p{N}_]+)*)/gu;
+
+// The partial "@name" right before the caret, for autocomplete (null when not typing a mention)
+const MENTION_QUERY_PATTERN = /(?:^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_.-]{0,30})$/u;
+
+export function mentionQueryAt(text: string, caret: number): string | null {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  return match ? match[1] : null;
+}
+
+// Distinct lower-cased usernames in the order they first appear in `text`
+// (usernames are stored lower-cased)
+export function extractMentionUsernames(text: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[2].toLowerCase());
+    if (usernames.size === MAX_MENTIONS_PER_TEXT) break;
+  }
+  return [...usernames];
+}
@@ -0,0 +1,158 @@
+// lib/notifications.ts
+import mongoose from "mongoose";
+import Notification, {
+  INotification,
+  NotificationType,
+  MAX_NOTIFICATION_ACTORS,
+} from "@/models/Notification";
+import { emitSocketEvent, userRoom } from "@/lib/socketInstance";
+
+type Id = mongoose.Types.ObjectId | string;
+
+interface NotificationEvent {
+  recipientId: Id;
+  actorId: Id;
+  type: NotificationType;
+  postId?: Id;
+}
+
+// Fields exposed for the users and post referenced by a notification
+export const NOTIFICATION_POPULATE = [
+  { path: "actors", select: "username name profilePicture" },
+  { path: "post", select: "content" },
+];
+
+// The unread group a new event of this kind is folded into
+function groupFilter({ recipientId, type, postId }: Omit<NotificationEvent, "actorId">) {
+  return {
+    recipient: recipientId,
+    type,
+    post: postId ?? null,
+    read: false,
+  };
+}
+
+export async function getUnreadCount(userId: Id): Promise<number> {
+  return Notification.countDocuments({ recipient: userId, read: false });
+}
+
+// Push the current unread count to every open tab of the user
+export async function emitUnreadCount(userId: Id): Promise<void> {
+  const unreadCount = await getUnreadCount(userId);
+  emitSocketEvent("notifications_unread_count", { unreadCount }, userRoom(userId.toString()));
+}
+
+/**
+ * Records an event for the recipient and pushes it over their socket.
+ * Events are grouped into the recipient's unread notification of the same
+ * type and post. Never throws: a failed notification must not fail the
+ * request that triggered it.
+ */
+export async function notify(event: NotificationEvent): Promise<void> {
+  const { recipientId, actorId } = event;
+  if (recipientId.toString() === actorId.toString()) return; // No self-notifications
+
+  try {
+    const filter = groupFilter(event);
+
+    // 1. Add the actor to an existing unread group (if not already in it).
+    // Membership is checked against actorIds, the full set: actors is capped,
+    // so an actor pushed off it would otherwise be counted again.
+    let notification: INotification | null = await Notification.findOneAndUpdate(
+      { ...filter, actorIds: { $ne: actorId }, actors: { $ne: actorId } }, // actors: groups from before actorIds
+      {
+        $push: {
+          actors: { $each: [actorId], $position: 0, $slice: MAX_NOTIFICATION_ACTORS },
+          actorIds: actorId,
+        },
+        $inc: { actorCount: 1 },
+      },
+      { new: true }
+    );
+
+    if (!notification) {
+      // 2. The actor is already in the group (e.g. like, unlike, like again): nothing new to say
+      if (await Notification.exists({ ...filter, $or: [{ actorIds: actorId }, { actors: actorId }] })) return;
+
+      // 3. Otherwise start a new group
+      notification = await Notification.create({
+        recipient: recipientId,
+        type: event.type,
+        post: event.postId,
+        actors: [actorId],
+        actorIds: [actorId],
+        actorCount: 1,
+      });
+    }
+
+    await notification.populate(NOTIFICATION_POPULATE);
+    const unreadCount = await getUnreadCount(recipientId);
+    emitSocketEvent(
+      "notification",
+      { notification: notification.toObject(), unreadCount },
+      userRoom(recipientId.toString())
+    );
+  } catch (error) {
+    console.error(`Notifications: Failed to record '${event.type}' for ${recipientId}:`, error);
+  }
+}
+
+/**
+ * Tells each user mentioned in a post or comment, skipping anyone in
+ * `alreadyMentioned` (e.g. the mentions before an edit) so edits do not
+ * notify the same people twice.
+ */
+export async function notifyMentions(
+  mentionIds: Id[],
+  actorId: Id,
+  postId: Id,
+  alreadyMentioned: Id[] = []
+): Promise<void> {
+  const previous = new Set(alreadyMentioned.map((id) => id.toString()));
+  await Promise.all(
+    mentionIds
+      .filter((id) => !previous.has(id.toString()))
+      .map((recipientId) => notify({ recipientId, actorId, type: "mention", postId }))
+  );
+}
+
+/**
+ * Takes an actor back out of an unread group when the action is undone
+ * (unlike, unfollow), whether or not they are still on the capped display
+ * list. Groups left without actors are removed.
+ */
+export async function retractNotification(event: NotificationEvent): Promise<void> {
+  const { recipientId, actorId } = event;
+  if (recipientId.toString() === actorId.toString()) return;
+
+  try {
+    const notification = await Notification.findOneAndUpdate(
+      { ...groupFilter(event), $or: [{ actorIds: actorId }, { actors: actorId }] },
+      { $pull: { actors: actorId, actorIds: actorId }, $inc: { actorCount: -1 } },
+      { new: true }
+    ).select("+actorIds");
+    if (!notification) return;
+
+    // Refill the display list from the most recent remaining actors
+    const shown = Math.min(notification.actorCount, MAX_NOTIFICATION_ACTORS);
+    if (notification.actorCount > 0 && notification.actors.length < shown && notification.actorIds.length > 0) {
+      await Notification.updateOne(
+        { _id: notification._id },
+        { $set: { actors: notification.actorIds.slice(-MAX_NOTIFICATION_ACTORS).reverse() } },
+        { timestamps: false } // Not new activity, so the group keeps its place in the inbox
+      );
+    }
+
+    if (notification.actorCount <= 0) {
+      await Notification.deleteOne({ _id: notification._id });
+      emitSocketEvent(
+        "notification_removed",
+        { notificationId: notification.id as string },
+        userRoom(recipientId.toString())
+      );
+    }
+    await emitUnreadCount(recipientId);
+  } catch (error) {
+    console.error(`Notifications: Failed to retract '${event.type}' for ${recipientId}:`, error);
+  }
+}
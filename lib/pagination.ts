@@ -0,0 +1,122 @@
+// lib/pagination.ts
+import mongoose from "mongoose";
+
+/**
+ * Opaque cursors for keyset pagination over (date, _id), newest first.
+ * The _id breaks ties between documents that share a timestamp, so pages
+ * never skip or repeat items when new documents arrive between requests.
+ */
+
+interface DecodedCursor {
+  date: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+export function encodeCursor(date: Date | string, id: mongoose.Types.ObjectId | string): string {
+  const payload = JSON.stringify({ t: new Date(date).toISOString(), id: id.toString() });
+  return Buffer.from(payload).toString("base64url");
+}
+
+// Returns null for anything that is not a cursor we issued
+export function decodeCursor(cursor: string | null | undefined): DecodedCursor | null {
+  if (!cursor) return null;
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const date = new Date(t);
+    if (Number.isNaN(date.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return { date, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+}
+
+// Query fragment selecting documents that come after the cursor
+export function cursorFilter(cursor: DecodedCursor, field = "createdAt") {
+  return {
+    $or: [
+      { [field]: { $lt: cursor.date } },
+      { [field]: cursor.date, _id: { $lt: cursor.id } },
+    ],
+  };
+}
+
+// Sort order matching cursorFilter
+export function cursorSort(field = "createdAt"): Record<string, -1> {
+  return { [field]: -1, _id: -1 };
+}
+
+export function parseLimit(value: string | null, defaultLimit = 10, maxLimit = 50): number {
+  const limit = parseInt(value || "", 10);
+  if (Number.isNaN(limit) || limit < 1) return defaultLimit;
+  return Math.min(limit, maxLimit);
+}
+
+/**
+ * Trims a result fetched with `limit + 1` down to one page and builds
+ * the cursor for the next one.
+ */
+export function buildPage<T extends { _id: unknown }>(
+  docs: T[],
+  limit: number,
+  field = "createdAt"
+): { items: T[]; nextCursor: string | null; hasMore: boolean } {
+  const hasMore = docs.length > limit;
+  const items = hasMore ? docs.slice(0, limit) : docs;
+  const last = items[items.length - 1] as (T & Record<string, unknown>) | undefined;
+  const nextCursor =
+    hasMore && last
+      ? encodeCursor(last[field] as Date, last._id as mongoose.Types.ObjectId)
+      : null;
+  return { items, nextCursor, hasMore };
+}
+
+/**
+ * Cursors for relevance-ranked results (e.g. text search), walked by
+ * (score, _id) highest first. Same idea as the date cursors above.
+ */
+interface DecodedScoreCursor {
+  score: number;
+  id: mongoose.Types.ObjectId;
+}
+
+export function encodeScoreCursor(score: number, id: mongoose.Types.ObjectId | string): string {
+  return Buffer.from(JSON.stringify({ s: score, id: id.toString() })).toString("base64url");
+}
+
+export function decodeScoreCursor(cursor: string | null | undefined): DecodedScoreCursor | null {
+  if (!cursor) return null;
+  try {
+    const { s, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof s !== "number" || !Number.isFinite(s) || !mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return { score: s, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+}
+
+// Aggregation $match fragment selecting ranked documents after the cursor
+export function scoreCursorFilter(cursor: DecodedScoreCursor, field = "score") {
+  return {
+    $or: [
+      { [field]: { $lt: cursor.score } },
+      { [field]: cursor.score, _id: { $lt: cursor.id } },
+    ],
+  };
+}
+
+// buildPage for ranked results fetched with `limit + 1`
+export function buildRankedPage<T extends { _id: unknown; score: number }>(
+  docs: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null; hasMore: boolean } {
+  const hasMore = docs.length > limit;
+  const items = hasMore ? docs.slice(0, limit) : docs;
+  const last = items[items.length - 1];
+  const nextCursor =
+    hasMore && last ? encodeScoreCursor(last.score, last._id as mongoose.Types.ObjectId) : null;
+  return { items, nextCursor, hasMore };
+}
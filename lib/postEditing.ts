@@ -0,0 +1,61 @@
+// lib/postEditing.ts
+import type { Types, UpdateQuery } from "mongoose";
+import type { IPost } from "@/models/Post";
+import { extractHashtags } from "@/lib/hashtags";
+
+// How long after posting the author may still edit a post.
+// NEXT_PUBLIC_ so the client can hide the Edit action once the window closes.
+export const POST_EDIT_WINDOW_MINUTES = parseInt(
+  process.env.NEXT_PUBLIC_POST_EDIT_WINDOW_MINUTES || "60",
+  10
+);
+
+export function isWithinEditWindow(createdAt: Date | string, now = Date.now()): boolean {
+  return now - new Date(createdAt).getTime() <= POST_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+type EditablePost = Pick<IPost, "content" | "imageUrl" | "media" | "createdAt" | "editedAt">;
+
+/**
+ * The text a post will have after an edit (`content` undefined keeps the
+ * current text). Like when posting, only posts with attachments may be left
+ * without text. Returns an error message for a 400 response.
+ */
+export function resolveEditedContent(post: EditablePost, content: unknown): { content: string } | { error: string } {
+  if (content === undefined) return { content: post.content };
+  if (typeof content !== "string") return { error: "Post content must be text" };
+  if (content.length > 280) return { error: "Post content cannot exceed 280 characters" };
+  const trimmed = content.trim();
+  if (trimmed.length === 0 && !post.media?.length) return { error: "Post content cannot be empty" };
+  return { content: trimmed };
+}
+
+/**
+ * The update that stores the post's current version as a revision and
+ * applies the edit. Run it without update validators: they see the query
+ * rather than the post, so the schema's "text unless there are attachments"
+ * rule would refuse a media-only post's empty text. resolveEditedContent
+ * has already checked it.
+ */
+export function buildEditUpdate(
+  post: EditablePost,
+  edit: { content: string; imageUrl: string | undefined; mentions: Types.ObjectId[]; editedAt: Date }
+): UpdateQuery<IPost> {
+  return {
+    $push: {
+      revisions: {
+        content: post.content,
+        imageUrl: post.imageUrl,
+        createdAt: post.editedAt ?? post.createdAt,
+      },
+    },
+    $set: {
+      content: edit.content,
+      hashtags: extractHashtags(edit.content),
+      mentions: edit.mentions,
+      editedAt: edit.editedAt,
+      ...(edit.imageUrl && { imageUrl: edit.imageUrl }),
+    },
+    ...(!edit.imageUrl && post.imageUrl ? { $unset: { imageUrl: 1 } } : {}),
+  };
+}
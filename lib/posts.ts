@@ -0,0 +1,203 @@
+// lib/posts.ts
+import mongoose from "mongoose";
+import User from "@/models/User"; // Also registers the model so "author" can be populated
+import Post from "@/models/Post";
+import Reaction from "@/models/Reaction";
+import Bookmark from "@/models/Bookmark";
+import { ReactionType } from "@/lib/reactions";
+import { extractMentionUsernames } from "@/lib/mentions";
+import { MAX_ALT_TEXT_LENGTH, MAX_MEDIA_PER_POST, PostMedia, isVideoMedia } from "@/lib/media";
+import { FILE_URL_PREFIX, UploadMetadata, filenameFromUrl, findUploads } from "@/lib/gridfs";
+import { emitSocketEvent, postRoom, userRoom } from "@/lib/socketInstance";
+
+const AUTHOR_POPULATE = { path: "author", select: "username profilePicture" };
+
+// Mentioned users, so PostContent can link the names that resolved
+export const MENTIONS_POPULATE = { path: "mentions", select: "username" };
+
+// Populate options shared by every endpoint that returns lists of posts,
+// so feeds, profiles and other listings render the same post shape.
+// Reposts and quotes carry the shared post (null once it is deleted).
+export const POST_POPULATE = [
+  AUTHOR_POPULATE,
+  MENTIONS_POPULATE,
+  { path: "repostOf", populate: [AUTHOR_POPULATE, MENTIONS_POPULATE] },
+  { path: "quoteOf", populate: AUTHOR_POPULATE },
+];
+
+// Populate options for comments returned by the comment endpoints and socket events
+export const COMMENT_POPULATE = [{ path: "user", select: "username profilePicture" }, MENTIONS_POPULATE];
+
+// Timelines and profiles list thread starters only; replies live in thread views
+export const TOP_LEVEL_FILTER = { parent: null };
+
+// Profile lists show the pinned post once, at the top, so leave it out of the pages
+export function pinnedPostFilter(pinnedPost?: mongoose.Types.ObjectId | null) {
+  return pinnedPost ? { _id: { $ne: pinnedPost } } : {};
+}
+
+// Per-viewer fields added to posts before they are returned
+export interface ViewerState {
+  viewerReaction: ReactionType | null;
+  viewerReposted: boolean;
+  viewerBookmarked: boolean; // Only ever computed for the viewer themselves
+}
+
+const EMPTY_VIEWER_STATE: ViewerState = { viewerReaction: null, viewerReposted: false, viewerBookmarked: false };
+
+type PostLike = { _id: unknown; repostOf?: unknown };
+
+// A populated repostOf is the original post document; unpopulated it is an id (or null)
+function isPopulatedPost(value: unknown): value is PostLike {
+  return !!value && typeof value === "object" && "_id" in value;
+}
+
+/**
+ * Adds the viewer's own state (their reaction, repost and bookmark) to each
+ * post, and to the original embedded in a repost, since that is what the
+ * viewer interacts with. Signed-out viewers get the empty state.
+ * Three queries for the whole list.
+ */
+export async function withViewerState<T extends PostLike>(
+  posts: T[],
+  viewerId?: string | null
+): Promise<(T & ViewerState)[]> {
+  const originals = posts.map((post) => post.repostOf).filter(isPopulatedPost);
+
+  let stateFor: (id: unknown) => ViewerState = () => EMPTY_VIEWER_STATE;
+
+  if (viewerId && posts.length > 0) {
+    const postIds = [...posts, ...originals].map((post) => post._id as mongoose.Types.ObjectId);
+    const [reactions, reposts, bookmarks] = await Promise.all([
+      Reaction.find({ post: { $in: postIds }, user: viewerId }).select("post type").lean(),
+      Post.find({ repostOf: { $in: postIds }, author: viewerId }).select("repostOf").lean(),
+      Bookmark.find({ post: { $in: postIds }, user: viewerId }).select("post").lean(),
+    ]);
+    const reactionByPost = new Map(reactions.map((r) => [r.post.toString(), r.type]));
+    const repostedPosts = new Set(reposts.map((r) => String(r.repostOf)));
+    const bookmarkedPosts = new Set(bookmarks.map((b) => b.post.toString()));
+    stateFor = (id) => ({
+      viewerReaction: reactionByPost.get(String(id)) ?? null,
+      viewerReposted: repostedPosts.has(String(id)),
+      viewerBookmarked: bookmarkedPosts.has(String(id)),
+    });
+  }
+
+  return posts.map((post) => {
+    const original = isPopulatedPost(post.repostOf) ? post.repostOf : null;
+    return {
+      ...post,
+      ...stateFor(post._id),
+      ...(original && { repostOf: { ...original, ...stateFor(original._id) } }),
+    };
+  });
+}
+
+// Ids of the existing users mentioned in `text`; unknown names are plain text
+export async function resolveMentions(text: string): Promise<mongoose.Types.ObjectId[]> {
+  const usernames = extractMentionUsernames(text);
+  if (usernames.length === 0) return [];
+  const users = await User.find({ username: { $in: usernames } }).select("_id").lean();
+  return users.map((user) => user._id as mongoose.Types.ObjectId);
+}
+
+/**
+ * Validates the `media` list of a new post: at most MAX_MEDIA_PER_POST
+ * distinct files, each uploaded by the author through /api/files/upload.
+ * The content type, and the dimensions when the upload recorded them, come
+ * from the stored file rather than the request. Returns the attachments to
+ * store, or an error message for a 400 response.
+ */
+export async function resolveMedia(
+  input: unknown,
+  authorId: string
+): Promise<{ media: PostMedia[] } | { error: string }> {
+  if (input === undefined || input === null) return { media: [] };
+  if (!Array.isArray(input)) return { error: "Media must be a list" };
+  if (input.length > MAX_MEDIA_PER_POST) {
+    return { error: `A post can have at most ${MAX_MEDIA_PER_POST} attachments` };
+  }
+
+  const items: (Omit<PostMedia, "contentType" | "width" | "height"> & { width?: number; height?: number })[] = [];
+  for (const item of input) {
+    const filename = filenameFromUrl(item?.url);
+    const alt = typeof item?.alt === "string" ? item.alt.trim() : item?.alt === undefined ? "" : null;
+    const { width, height } = item ?? {};
+    if (!filename) return { error: "Each attachment must be an uploaded file" };
+    if (alt === null || alt.length > MAX_ALT_TEXT_LENGTH) {
+      return { error: `Alt text must be text of at most ${MAX_ALT_TEXT_LENGTH} characters` };
+    }
+    const hasSize = width !== undefined || height !== undefined;
+    if (hasSize && (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0)) {
+      return { error: "Attachment width and height must be positive whole numbers" };
+    }
+    if (items.some((existing) => existing.url === item.url)) {
+      return { error: "The same file cannot be attached twice" };
+    }
+    items.push({ url: item.url, alt, width, height });
+  }
+  if (items.length === 0) return { media: [] };
+
+  const uploads = await findUploads(items.map((item) => filenameFromUrl(item.url)!), authorId);
+  const media: PostMedia[] = [];
+  for (const item of items) {
+    const upload = uploads.get(filenameFromUrl(item.url)!);
+    if (!upload) return { error: "Attachment not found" };
+    const stored = upload.metadata as UploadMetadata | undefined;
+    const width = stored?.width ?? item.width;
+    const height = stored?.height ?? item.height;
+    if (!width || !height) return { error: "Each attachment needs its width and height" };
+    media.push({
+      ...item,
+      width,
+      height,
+      contentType: upload.contentType ?? "application/octet-stream",
+      ...(stored?.poster && { posterUrl: `${FILE_URL_PREFIX}${stored.poster}` }),
+      ...(stored?.duration && { duration: stored.duration }),
+    });
+  }
+  if (media.length > 1 && media.some(isVideoMedia)) {
+    return { error: "A video must be the only attachment on a post" };
+  }
+  return { media };
+}
+
+/**
+ * Validates the single `imageUrl` of a post (the field older clients and
+ * edits use): it must be an image the author uploaded, like each entry of
+ * `media`. Returns undefined when no image is given, or an error message
+ * for a 400 response.
+ */
+export async function resolveImageUrl(
+  input: unknown,
+  authorId: string
+): Promise<{ imageUrl: string | undefined } | { error: string }> {
+  if (input === undefined || input === null || input === "") return { imageUrl: undefined };
+  const filename = typeof input === "string" ? filenameFromUrl(input) : null;
+  if (!filename) return { error: "The image must be an uploaded file" };
+
+  const upload = (await findUploads([filename], authorId)).get(filename);
+  if (!upload || !upload.contentType?.startsWith("image/")) return { error: "Image not found" };
+  return { imageUrl: input as string };
+}
+
+// Deliver a new top-level post (including reposts and quotes) to the
+// Explore timeline and to the home timelines of the author and their followers
+export async function broadcastNewPost(populatedPost: object, authorId: string): Promise<void> {
+  emitSocketEvent("post_created", populatedPost);
+
+  const author = await User.findById(authorId).select("followers").lean();
+  const homeRooms = [authorId, ...(author?.followers ?? [])].map((id) => userRoom(id.toString()));
+  emitSocketEvent("home_post_created", populatedPost, homeRooms);
+}
+
+// Push a post's current repost and quote counts to everyone viewing it
+export async function emitShareCounts(postId: string): Promise<void> {
+  const post = await Post.findById(postId).select("repostCount quoteCount").lean();
+  if (!post) return;
+  emitSocketEvent(
+    "shares_updated",
+    { postId, repostCount: post.repostCount, quoteCount: post.quoteCount },
+    postRoom(postId)
+  );
+}
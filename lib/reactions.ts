@@ -0,0 +1,24 @@
+// lib/reactions.ts
+
+// The reactions users can leave on a post, in picker order.
+// Add, remove or reorder entries here to change the reaction set;
+// the model, API and picker all read from this list.
+export const REACTIONS = [
+  { type: "like", emoji: "👍", label: "Like" },
+  { type: "love", emoji: "❤️", label: "Love" },
+  { type: "laugh", emoji: "😂", label: "Laugh" },
+  { type: "wow", emoji: "😮", label: "Wow" },
+  { type: "sad", emoji: "😢", label: "Sad" },
+  { type: "angry", emoji: "😠", label: "Angry" },
+] as const;
+
+export type ReactionType = (typeof REACTIONS)[number]["type"];
+
+export const REACTION_TYPES = REACTIONS.map((reaction) => reaction.type) as ReactionType[];
+
+// Per-type totals stored on each post, e.g. { like: 3, love: 1 }
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+export function isReactionType(value: unknown): value is ReactionType {
+  return typeof value === "string" && (REACTION_TYPES as string[]).includes(value);
+}
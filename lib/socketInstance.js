@@ -1,14 +1,89 @@
 // lib/socketInstance.js
 
-// This module acts as a singleton holder for the Socket.IO instance
-let io = null;
+// This module acts as a singleton holder for the Socket.IO instance.
+// server.js and the Next.js route bundles load separate copies of this module,
+// so the instance is kept on globalThis to make it visible to both.
+const globalForSocket = globalThis;
+
+// How many recent events are kept for replay to reconnecting clients
+const EVENT_LOG_SIZE = parseInt(process.env.SOCKET_EVENT_LOG_SIZE || "500", 10);
 
 export function setIoInstance(ioInstance) {
   console.log("Socket instance being set in module.");
-  io = ioInstance;
+  globalForSocket.__socketIoInstance = ioInstance;
 }
 
 export function getIoInstance() {
-  // console.log("getIoInstance called, returning:", io ? 'Instance' : 'null');
-  return io;
+  // console.log("getIoInstance called, returning:", globalForSocket.__socketIoInstance ? "Instance" : "null");
+  return globalForSocket.__socketIoInstance ?? null;
+}
+
+// Room names shared by server.js and the route handlers
+export function postRoom(postId) {
+  return `post:${postId}`;
+}
+
+export function userRoom(userId) {
+  return `user:${userId}`;
+}
+
+// Bounded, sequence-numbered log of emitted events.
+// The epoch changes on every server start so clients can tell that
+// sequence numbers from a previous process no longer apply.
+function getEventLog() {
+  if (!globalForSocket.__socketEventLog) {
+    globalForSocket.__socketEventLog = {
+      epoch: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      seq: 0,
+      entries: [],
+    };
+  }
+  return globalForSocket.__socketEventLog;
+}
+
+// Current { epoch, seq } a client should remember as its replay position
+export function getEventLogPosition() {
+  const log = getEventLog();
+  return { epoch: log.epoch, seq: log.seq };
+}
+
+// Events logged after the given position, or null if the client is too far
+// behind (or from another server run) and must refetch instead
+export function getEventsSince(position) {
+  const log = getEventLog();
+  const lastSeq = Number(position?.seq);
+  if (position?.epoch !== log.epoch || !Number.isInteger(lastSeq) || lastSeq > log.seq) {
+    return null;
+  }
+  const oldestSeq = log.entries.length > 0 ? log.entries[0].seq : log.seq + 1;
+  if (lastSeq < oldestSeq - 1) {
+    return null;
+  }
+  return log.entries.filter((entry) => entry.seq > lastSeq);
+}
+
+// Publish a server-authoritative event to connected clients.
+// Route handlers call this after the database write has succeeded.
+// Pass a room or an array of rooms (see postRoom/userRoom) to reach only
+// their subscribers.
+// Every event is logged and sent with { epoch, seq } as a second argument.
+export function emitSocketEvent(event, payload, room) {
+  const log = getEventLog();
+  log.seq += 1;
+  const meta = { epoch: log.epoch, seq: log.seq };
+  log.entries.push({ seq: log.seq, event, payload, room: room ?? null });
+  if (log.entries.length > EVENT_LOG_SIZE) {
+    log.entries.splice(0, log.entries.length - EVENT_LOG_SIZE);
+  }
+
+  const io = getIoInstance();
+  if (!io) {
+    console.warn(`Socket emit skipped: no io instance for '${event}'`);
+    return;
+  }
+  if (room && room.length > 0) {
+    io.to(room).emit(event, payload, meta);
+  } else {
+    io.emit(event, payload, meta);
+  }
 }
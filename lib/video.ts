@@ -0,0 +1,151 @@
+// lib/video.ts
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import ffprobe from "@ffprobe-installer/ffprobe";
+import { VIDEO_FORMATS, VideoFormat } from "@/lib/fileType";
+import { ProcessedImage, processPoster } from "@/lib/images";
+import { MAX_VIDEO_DURATION_SECONDS } from "@/lib/media";
+
+/**
+ * Reads what a post needs from an uploaded video: size, duration and a
+ * poster frame. Uses the ffprobe and ffmpeg binaries installed from npm, or
+ * the ones at FFPROBE_PATH / FFMPEG_PATH. A video is only accepted when all
+ * of these could be read, so the duration limit always applies.
+ */
+
+const FFPROBE_PATH = process.env.FFPROBE_PATH || ffprobe.path;
+const FFMPEG_PATH = process.env.FFMPEG_PATH || ffmpeg.path;
+const TOOL_TIMEOUT_MS = 20_000;
+const MAX_TOOL_OUTPUT_BYTES = 32 * 1024 * 1024; // A single PNG frame is well under this
+
+export interface VideoDetails {
+  width: number; // Display size, after any rotation the file records
+  height: number;
+  duration: number; // Seconds
+  poster: ProcessedImage; // A frame near the start
+}
+
+// Run a tool and collect its stdout; rejects on failure, a timeout or too much output
+function run(command: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`${command} timed out`));
+    }, TOOL_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_TOOL_OUTPUT_BYTES) {
+        child.kill("SIGKILL");
+        reject(new Error(`${command} produced too much output`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-500); // Keep the tail for the log
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim()}`));
+    });
+  });
+}
+
+// A missing binary is a server problem, not a bad upload, so it is thrown
+function assertToolFound(error: unknown, command: string): void {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    throw new Error(`Video processing is unavailable: ${command} was not found`);
+  }
+}
+
+/**
+ * Probes a video and makes its poster. Returns an error message for a 400
+ * response when the file is not a playable video, is too long, or its length
+ * or a frame cannot be read. Throws when the binaries are missing.
+ */
+export async function inspectVideo(data: Buffer, format: VideoFormat): Promise<VideoDetails | { error: string }> {
+  // The tools need a seekable file (an MP4's index may sit at the end)
+  const file = path.join(os.tmpdir(), `upload-${crypto.randomBytes(8).toString("hex")}${VIDEO_FORMATS[format].extension}`);
+  await fs.writeFile(file, data);
+
+  try {
+    // 1. Size and duration of the first video stream
+    let probe: { streams?: { width?: number; height?: number }[]; format?: { duration?: string } };
+    try {
+      const output = await run(FFPROBE_PATH, [
+        "-v", "error",
+        "-select_streams", "v:0",
+        "-show_entries", "stream=width,height:format=duration",
+        "-of", "json",
+        file,
+      ]);
+      probe = JSON.parse(output.toString());
+    } catch (error) {
+      assertToolFound(error, FFPROBE_PATH);
+      console.error("Video: Probe failed:", error);
+      return { error: "The video could not be read." };
+    }
+    const stream = probe.streams?.[0];
+    if (!stream?.width || !stream?.height) {
+      return { error: "The file has no video." };
+    }
+    // Without a duration the length limit could not be enforced
+    const duration = parseFloat(probe.format?.duration ?? "");
+    if (!Number.isFinite(duration) || duration <= 0) {
+      return { error: "The video's length could not be read." };
+    }
+    if (duration > MAX_VIDEO_DURATION_SECONDS) {
+      return { error: `Videos can be at most ${MAX_VIDEO_DURATION_SECONDS} seconds long.` };
+    }
+
+    // 2. A frame a little way in (the very first is often black)
+    const seekSeconds = Math.min(1, duration / 2);
+    let frame: Buffer;
+    let width = stream.width;
+    let height = stream.height;
+    try {
+      frame = await run(FFMPEG_PATH, [
+        "-v", "error",
+        "-ss", seekSeconds.toFixed(2),
+        "-i", file,
+        "-frames:v", "1",
+        "-f", "image2pipe",
+        "-c:v", "png",
+        "pipe:1",
+      ]);
+      // ffmpeg applies the rotation phones record, so the frame has the display size
+      const frameMetadata = await sharp(frame).metadata();
+      if (frameMetadata.width && frameMetadata.height) {
+        width = frameMetadata.width;
+        height = frameMetadata.height;
+      }
+    } catch (error) {
+      assertToolFound(error, FFMPEG_PATH);
+      console.error("Video: Could not grab a poster frame:", error);
+      return { error: "A poster frame could not be made from the video." };
+    }
+
+    // 3. Encode the frame like the other stored images
+    const poster = await processPoster(frame);
+    if (!poster) return { error: "A poster frame could not be made from the video." };
+    return { width, height, duration, poster };
+  } finally {
+    await fs.unlink(file).catch(() => {});
+  }
+}
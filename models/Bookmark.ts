@@ -0,0 +1,43 @@
+// models/Bookmark.ts
+import mongoose, { Schema, Document, models, Model, Types } from "mongoose";
+import { IUser } from "./User";
+import { IPost } from "./Post";
+
+// Define the interface for the Bookmark document
+// Bookmarks are private: only ever read back for their own user
+export interface IBookmark extends Document {
+  user: Types.ObjectId | IUser; // The user who saved the post
+  post: Types.ObjectId | IPost; // The saved post
+  createdAt: Date;
+}
+
+// Define the Mongoose schema for Bookmarks
+const BookmarkSchema: Schema<IBookmark> = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }, // Only need createdAt for bookmarks
+  }
+);
+
+// A post is saved at most once per user
+BookmarkSchema.index({ user: 1, post: 1 }, { unique: true });
+// Saved-posts page: most recently saved first
+BookmarkSchema.index({ user: 1, createdAt: -1, _id: -1 });
+// Removing a deleted post's bookmarks
+BookmarkSchema.index({ post: 1 });
+
+// Prevent mongoose from recompiling the model if it already exists
+const Bookmark: Model<IBookmark> = models.Bookmark || mongoose.model<IBookmark>("Bookmark", BookmarkSchema);
+
+export default Bookmark;
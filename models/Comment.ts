@@ -0,0 +1,52 @@
+// models/Comment.ts
+import mongoose, { Schema, Document, models, Model, Types } from "mongoose";
+import { IUser } from "./User";
+import { IPost } from "./Post";
+
+// Define the interface for the Comment document
+// Comments live in their own collection; posts only keep a commentCount
+export interface IComment extends Document {
+  post: Types.ObjectId | IPost; // The post the comment belongs to
+  user: Types.ObjectId | IUser; // Reference to the user who commented
+  text: string;
+  mentions: Types.ObjectId[]; // Users @mentioned in the text, resolved when it is written
+  editedAt?: Date; // Set when the commenter last edited the text
+  createdAt: Date;
+}
+
+// Define the Mongoose schema for Comments
+const CommentSchema: Schema<IComment> = new Schema(
+  {
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    text: {
+      type: String,
+      required: [true, "Comment text cannot be empty"],
+      trim: true,
+      maxlength: [500, "Comment cannot exceed 500 characters"],
+    },
+    mentions: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    editedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }, // Only need createdAt for comments
+  }
+);
+
+// Cursor pagination walks a post's comments by (createdAt, _id), newest first
+CommentSchema.index({ post: 1, createdAt: -1, _id: -1 });
+
+// Prevent mongoose from recompiling the model if it already exists
+const Comment: Model<IComment> = models.Comment || mongoose.model<IComment>("Comment", CommentSchema);
+
+export default Comment;
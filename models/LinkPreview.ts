@@ -0,0 +1,47 @@
+// models/LinkPreview.ts
+import mongoose, { Schema, Document, models, Model } from "mongoose";
+
+// What a post shows for its first link (also embedded on the post itself)
+export interface ILinkPreviewData {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string; // Absolute http(s) URL from og:image / twitter:image
+  siteName?: string;
+}
+
+// Define the interface for the LinkPreview document
+// A cache of fetched page metadata, one document per URL, shared by all posts
+export interface ILinkPreview extends ILinkPreviewData, Document {
+  url: string; // Normalized URL (see lib/links)
+  status: "ok" | "failed"; // Failed fetches are cached too, so a bad link is not refetched per post
+  fetchedAt: Date;
+}
+
+// Define the Mongoose schema for LinkPreviews
+const LinkPreviewSchema: Schema<ILinkPreview> = new Schema({
+  url: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  status: {
+    type: String,
+    enum: ["ok", "failed"],
+    required: true,
+  },
+  title: { type: String },
+  description: { type: String },
+  image: { type: String },
+  siteName: { type: String },
+  fetchedAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Prevent mongoose from recompiling the model if it already exists
+const LinkPreview: Model<ILinkPreview> =
+  models.LinkPreview || mongoose.model<ILinkPreview>("LinkPreview", LinkPreviewSchema);
+
+export default LinkPreview;
@@ -0,0 +1,71 @@
+// models/Notification.ts
+import mongoose, { Schema, Document, models, Model, Types } from "mongoose";
+import { IUser } from "./User";
+import { IPost } from "./Post";
+
+export const NOTIFICATION_TYPES = ["like", "reaction", "comment", "follow", "reply", "repost", "quote", "mention"] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// How many actors are kept per grouped notification (the count keeps going)
+export const MAX_NOTIFICATION_ACTORS = 10;
+
+// Define the interface for the Notification document
+// Similar events are grouped: one unread notification per recipient/type/post,
+// e.g. "alice and 11 others liked your post"
+export interface INotification extends Document {
+  recipient: Types.ObjectId | IUser; // The user who receives the notification
+  type: NotificationType;
+  post?: Types.ObjectId | IPost; // The post the event is about (not set for follows)
+  actors: (Types.ObjectId | IUser)[]; // Most recent actors first, capped (for display)
+  actorIds: Types.ObjectId[]; // Every actor in the group, oldest first (for dedup and counting)
+  actorCount: number; // Total distinct actors in this group
+  read: boolean;
+  createdAt: Date;
+  updatedAt: Date; // Bumped whenever a new actor joins the group
+}
+
+// Define the Mongoose schema for Notifications
+const NotificationSchema: Schema<INotification> = new Schema(
+  {
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: true,
+    },
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+    },
+    actors: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    actorIds: {
+      type: [{ type: Schema.Types.ObjectId }],
+      select: false, // Internal; clients only get the capped, populated list
+    },
+    actorCount: {
+      type: Number,
+      default: 0,
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt fields
+  }
+);
+
+// Inbox listing (newest activity first) and the grouping lookup
+NotificationSchema.index({ recipient: 1, updatedAt: -1, _id: -1 });
+NotificationSchema.index({ recipient: 1, read: 1, type: 1, post: 1 });
+
+// Prevent mongoose from recompiling the model if it already exists
+const Notification: Model<INotification> =
+  models.Notification || mongoose.model<INotification>("Notification", NotificationSchema);
+
+export default Notification;
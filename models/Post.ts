@@ -1,32 +1,50 @@
 // models/Post.ts
 import mongoose, { Schema, Document, models, Model, Types } from "mongoose";
 import { IUser } from "./User"; // Import IUser for author typing
+import { ReactionCounts } from "@/lib/reactions";
+import { MAX_MEDIA_PER_POST, PostMedia } from "@/lib/media";
+import { ILinkPreviewData } from "./LinkPreview";
 
-// Interface for the Comment subdocument (optional for now, can be expanded later)
-export interface IComment extends Document {
-  user: Types.ObjectId | IUser; // Reference to the user who commented
-  text: string;
-  createdAt: Date;
+// Interface for a prior version of an edited post
+export interface IPostRevision {
+  content: string;
+  imageUrl?: string;
+  createdAt: Date; // When this version was written (post creation or an earlier edit)
 }
 
 // Define the interface for the Post document
 export interface IPost extends Document {
   author: Types.ObjectId | IUser; // Reference to the User who created the post
   content: string;
-  imageUrl?: string; // Optional field for image posts
-  likes: Types.ObjectId[]; // Array of User ObjectIds who liked the post
-  comments: IComment[]; // Array of comment subdocuments
+  imageUrl?: string; // Single image on posts made before media attachments (and set by edits)
+  media: PostMedia[]; // Ordered attachments, at most MAX_MEDIA_PER_POST
+  hashtags: string[]; // Normalized tags parsed from content when it is written (see lib/hashtags)
+  mentions: Types.ObjectId[]; // Users @mentioned in content, resolved when it is written
+  linkPreview?: ILinkPreviewData; // Card for the first link in content, filled in after the post is saved
+  reactionCounts: ReactionCounts; // Denormalized per-type counts of documents in the Reaction collection
+  commentCount: number; // Denormalized count of documents in the Comment collection
+  editedAt?: Date; // Set when the author last edited the post
+  parent: Types.ObjectId | null; // The post this one replies to (null for top-level posts)
+  root: Types.ObjectId | null; // The top-level post of the thread (null for top-level posts)
+  replyCount: number; // Number of direct replies
+  repostOf: Types.ObjectId | null; // Set on reposts: the shared post (reposts have no content of their own)
+  quoteOf: Types.ObjectId | null; // Set on quote posts: the post embedded below the content
+  quotedPostDeleted?: boolean; // Set on quote posts whose quoted post was deleted
+  repostCount: number; // Number of reposts of this post
+  quoteCount: number; // Number of quote posts of this post
+  revisions: IPostRevision[]; // Prior versions, oldest first (not selected by default)
   createdAt: Date;
   updatedAt: Date;
 }
 
-// Define the Mongoose schema for Comments (as a subdocument)
-const CommentSchema: Schema<IComment> = new Schema(
+// Define the Mongoose schema for post revisions (as a subdocument)
+const PostRevisionSchema: Schema<IPostRevision> = new Schema(
   {
-    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
-    text: { type: String, required: true, trim: true, maxlength: 500 },
+    content: { type: String, default: "" }, // Empty for versions of media-only posts
+    imageUrl: { type: String },
+    createdAt: { type: Date, required: true },
   },
-  { timestamps: { createdAt: true, updatedAt: false } } // Only need createdAt for comments
+  { _id: false }
 );
 
 // Define the Mongoose schema for Posts
@@ -40,21 +58,135 @@ const PostSchema: Schema<IPost> = new Schema(
     },
     content: {
       type: String,
-      required: [true, "Post content cannot be empty"],
+      // Reposts only point at the original; media posts may skip the text
+      required: [
+        function (this: IPost) {
+          return !this.repostOf && !this.media?.length;
+        },
+        "Post content cannot be empty",
+      ],
       trim: true,
       maxlength: [280, "Post content cannot exceed 280 characters"], // Twitter-like limit
     },
     imageUrl: {
       type: String, // URL to an image (we'll handle uploads later)
     },
-    likes: [{ type: Schema.Types.ObjectId, ref: "User" }], // Array of references to Users
-    comments: [CommentSchema], // Embed the Comment schema as an array of subdocuments
+    media: {
+      type: [
+        new Schema(
+          {
+            url: { type: String, required: true },
+            alt: { type: String, default: "" },
+            width: { type: Number, required: true },
+            height: { type: Number, required: true },
+            contentType: { type: String, required: true },
+            posterUrl: { type: String },
+            duration: { type: Number },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+      validate: [
+        (media: PostMedia[]) => media.length <= MAX_MEDIA_PER_POST,
+        `A post can have at most ${MAX_MEDIA_PER_POST} attachments`,
+      ],
+    },
+    hashtags: {
+      type: [String],
+      default: [],
+    },
+    mentions: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    linkPreview: {
+      type: new Schema(
+        {
+          url: { type: String, required: true },
+          title: { type: String },
+          description: { type: String },
+          image: { type: String },
+          siteName: { type: String },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    reactionCounts: {
+      type: Map,
+      of: Number,
+      default: {},
+    },
+    commentCount: {
+      type: Number,
+      default: 0,
+    },
+    editedAt: {
+      type: Date,
+    },
+    revisions: {
+      type: [PostRevisionSchema],
+      select: false, // Only the history endpoint needs these
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      default: null,
+    },
+    root: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      default: null,
+    },
+    replyCount: {
+      type: Number,
+      default: 0,
+    },
+    repostOf: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      default: null,
+    },
+    quoteOf: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      default: null,
+    },
+    quotedPostDeleted: {
+      type: Boolean,
+    },
+    repostCount: {
+      type: Number,
+      default: 0,
+    },
+    quoteCount: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt fields
   }
 );
 
+// Cursor pagination walks (createdAt, _id) newest first, globally and per author
+PostSchema.index({ createdAt: -1, _id: -1 });
+PostSchema.index({ author: 1, createdAt: -1, _id: -1 });
+// Direct replies of a post, paged the same way
+PostSchema.index({ parent: 1, createdAt: -1, _id: -1 });
+// One repost per user per post; also finds the reposts to remove with the original
+PostSchema.index(
+  { repostOf: 1, author: 1 },
+  { unique: true, partialFilterExpression: { repostOf: { $type: "objectId" } } }
+);
+// Tag pages, paged newest first (multikey over the post's tags)
+PostSchema.index({ hashtags: 1, createdAt: -1, _id: -1 });
+// Full-text search over content and tags (a collection allows only one text index)
+PostSchema.index(
+  { content: "text", hashtags: "text" },
+  { name: "post_text_search", weights: { hashtags: 3, content: 1 } }
+);
+// Quotes of a post, so they can be marked when it is deleted
+PostSchema.index({ quoteOf: 1 }, { partialFilterExpression: { quoteOf: { $type: "objectId" } } });
+
 // Prevent mongoose from recompiling the model if it already exists
 const Post: Model<IPost> = models.Post || mongoose.model<IPost>("Post", PostSchema);
 
@@ -0,0 +1,49 @@
+// models/Reaction.ts
+import mongoose, { Schema, Document, models, Model, Types } from "mongoose";
+import { IUser } from "./User";
+import { IPost } from "./Post";
+import { REACTION_TYPES, ReactionType } from "@/lib/reactions";
+
+// Define the interface for the Reaction document
+// One reaction per user per post; changing it replaces the type
+export interface IReaction extends Document {
+  post: Types.ObjectId | IPost;
+  user: Types.ObjectId | IUser;
+  type: ReactionType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Define the Mongoose schema for Reactions
+const ReactionSchema: Schema<IReaction> = new Schema(
+  {
+    post: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: REACTION_TYPES,
+      required: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt fields
+  }
+);
+
+// At most one reaction per user per post (also serves viewer lookups)
+ReactionSchema.index({ post: 1, user: 1 }, { unique: true });
+// Listing who reacted to a post, newest first, optionally by type
+ReactionSchema.index({ post: 1, type: 1, createdAt: -1, _id: -1 });
+
+// Prevent mongoose from recompiling the model if it already exists
+const Reaction: Model<IReaction> = models.Reaction || mongoose.model<IReaction>("Reaction", ReactionSchema);
+
+export default Reaction;
@@ -11,6 +11,7 @@ export interface IUser extends Document {
   profilePicture?: string;
   followers: mongoose.Schema.Types.ObjectId[];
   following: mongoose.Schema.Types.ObjectId[];
+  pinnedPost: mongoose.Types.ObjectId | null; // Shown first on the profile
   createdAt: Date;
   updatedAt: Date;
 }
@@ -53,12 +54,23 @@ const UserSchema: Schema<IUser> = new Schema(
     },
     followers: [{ type: Schema.Types.ObjectId, ref: "User" }],
     following: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    pinnedPost: {
+      type: Schema.Types.ObjectId,
+      ref: "Post",
+      default: null,
+    },
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt fields
   }
 );
 
+// Full-text search over people; a username hit outranks one in a bio
+UserSchema.index(
+  { username: "text", name: "text", bio: "text" },
+  { name: "user_text_search", weights: { username: 5, name: 3, bio: 1 } }
+);
+
 // Prevent mongoose from recompiling the model if it already exists
 const User: Model<IUser> = models.User || mongoose.model<IUser>("User", UserSchema);
 
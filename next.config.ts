@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // These locate their platform's binary with require.resolve, which only
+  // works when they are loaded from node_modules rather than bundled
+  serverExternalPackages: ["@ffmpeg-installer/ffmpeg", "@ffprobe-installer/ffprobe"],
 };
 
 export default nextConfig;
@@ -0,0 +1,60 @@
+// scripts/backfill-hashtags.js
+// One-off migration: sets `hashtags` on posts written before tags were
+// parsed, so older posts show up on tag pages and in trending.
+//
+// Usage: npm run migrate:hashtags
+//
+// Safe to re-run: tags are recomputed from each post's current content.
+const { loadEnvConfig } = require("@next/env");
+const mongoose = require("mongoose");
+
+loadEnvConfig(process.cwd()); // Same .env / .env.local files Next.js reads
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const BATCH_SIZE = 100;
+
+// Keep in step with lib/hashtags.ts (this script runs under plain Node, not TypeScript)
+const MAX_HASHTAG_LENGTH = 50;
+const MAX_HASHTAGS_PER_POST = 10;
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)/gu;
+
+function extractHashtags(content) {
+  const tags = new Set();
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    const tag = match[2].normalize("NFKC").toLowerCase().slice(0, MAX_HASHTAG_LENGTH);
+    if (!/^\p{N}+$/u.test(tag)) tags.add(tag);
+    if (tags.size === MAX_HASHTAGS_PER_POST) break;
+  }
+  return [...tags];
+}
+
+async function migrate() {
+  if (!MONGODB_URI) {
+    throw new Error("Please define the MONGODB_URI environment variable inside .env.local");
+  }
+  await mongoose.connect(MONGODB_URI);
+  const posts = mongoose.connection.db.collection("posts");
+
+  // Same index as models/Post.ts
+  await posts.createIndex({ hashtags: 1, createdAt: -1, _id: -1 });
+
+  let updatedPosts = 0;
+  let taggedPosts = 0;
+
+  const cursor = posts.find({}).project({ content: 1 }).batchSize(BATCH_SIZE);
+  for await (const post of cursor) {
+    const hashtags = extractHashtags(post.content ?? "");
+    await posts.updateOne({ _id: post._id }, { $set: { hashtags } });
+    updatedPosts += 1;
+    if (hashtags.length > 0) taggedPosts += 1;
+  }
+
+  console.log(`Migration complete: ${updatedPosts} posts updated, ${taggedPosts} with hashtags`);
+}
+
+migrate()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,89 @@
+// scripts/migrate-embedded-comments.js
+// One-off migration: moves comments embedded in `posts.comments` into the
+// `comments` collection and sets each post's `commentCount`.
+//
+// Usage: npm run migrate:comments
+//
+// Safe to re-run: comments keep their original _id (duplicates are skipped)
+// and the embedded array is only removed once its comments are copied.
+const { loadEnvConfig } = require("@next/env");
+const mongoose = require("mongoose");
+
+loadEnvConfig(process.cwd()); // Same .env / .env.local files Next.js reads
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const BATCH_SIZE = 100;
+
+async function migrate() {
+  if (!MONGODB_URI) {
+    throw new Error("Please define the MONGODB_URI environment variable inside .env.local");
+  }
+  await mongoose.connect(MONGODB_URI);
+  const db = mongoose.connection.db;
+  const posts = db.collection("posts");
+  const comments = db.collection("comments");
+
+  // Same index as models/Comment.ts, so paging works right after the migration
+  await comments.createIndex({ post: 1, createdAt: -1, _id: -1 });
+
+  let migratedPosts = 0;
+  let migratedComments = 0;
+
+  // 1. Copy embedded comments out, one post at a time
+  const cursor = posts
+    .find({ comments: { $exists: true } })
+    .project({ comments: 1 })
+    .batchSize(BATCH_SIZE);
+
+  for await (const post of cursor) {
+    const embedded = Array.isArray(post.comments) ? post.comments : [];
+    if (embedded.length > 0) {
+      try {
+        await comments.insertMany(
+          embedded.map((comment) => ({
+            _id: comment._id,
+            post: post._id,
+            user: comment.user,
+            text: comment.text,
+            createdAt: comment.createdAt ?? post._id.getTimestamp(),
+          })),
+          { ordered: false }
+        );
+      } catch (error) {
+        // 11000 = duplicate key: already copied by an earlier run
+        const writeErrors = error.writeErrors ?? [];
+        if (error.code !== 11000 && !writeErrors.every((e) => e.code === 11000)) {
+          throw error;
+        }
+      }
+    }
+
+    // 2. Count from the collection (covers comments copied by an earlier run)
+    const commentCount = await comments.countDocuments({ post: post._id });
+    await posts.updateOne(
+      { _id: post._id },
+      { $set: { commentCount }, $unset: { comments: "" } }
+    );
+
+    migratedPosts += 1;
+    migratedComments += embedded.length;
+  }
+
+  // 3. Posts that never had a comments array still need a count
+  const { modifiedCount } = await posts.updateMany(
+    { commentCount: { $exists: false } },
+    { $set: { commentCount: 0 } }
+  );
+
+  console.log(
+    `Migration complete: ${migratedComments} comments moved from ${migratedPosts} posts; ` +
+      `${modifiedCount} posts without comments initialised`
+  );
+}
+
+migrate()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,97 @@
+// scripts/migrate-likes-to-reactions.js
+// One-off migration: turns the user ids in `posts.likes` into "like"
+// documents in the `reactions` collection and sets each post's
+// `reactionCounts`.
+//
+// Usage: npm run migrate:reactions
+//
+// Safe to re-run: a user's existing reaction on a post is kept (the unique
+// post+user index skips the duplicate) and counts are recomputed from the
+// collection.
+const { loadEnvConfig } = require("@next/env");
+const mongoose = require("mongoose");
+
+loadEnvConfig(process.cwd()); // Same .env / .env.local files Next.js reads
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const BATCH_SIZE = 100;
+
+async function migrate() {
+  if (!MONGODB_URI) {
+    throw new Error("Please define the MONGODB_URI environment variable inside .env.local");
+  }
+  await mongoose.connect(MONGODB_URI);
+  const db = mongoose.connection.db;
+  const posts = db.collection("posts");
+  const reactions = db.collection("reactions");
+
+  // Same indexes as models/Reaction.ts; the unique one makes re-runs safe
+  await reactions.createIndex({ post: 1, user: 1 }, { unique: true });
+  await reactions.createIndex({ post: 1, type: 1, createdAt: -1, _id: -1 });
+
+  let migratedPosts = 0;
+  let migratedLikes = 0;
+
+  // 1. Copy likes into reactions, one post at a time
+  const cursor = posts
+    .find({ likes: { $exists: true } })
+    .project({ likes: 1, createdAt: 1 })
+    .batchSize(BATCH_SIZE);
+
+  for await (const post of cursor) {
+    const likes = Array.isArray(post.likes) ? post.likes : [];
+    if (likes.length > 0) {
+      // When each like happened was never stored; use the post's creation time
+      const createdAt = post.createdAt ?? post._id.getTimestamp();
+      try {
+        await reactions.insertMany(
+          likes.map((userId) => ({
+            post: post._id,
+            user: userId,
+            type: "like",
+            createdAt,
+            updatedAt: createdAt,
+          })),
+          { ordered: false }
+        );
+      } catch (error) {
+        // 11000 = duplicate key: the user already has a reaction on this post
+        const writeErrors = error.writeErrors ?? [];
+        if (error.code !== 11000 && !writeErrors.every((e) => e.code === 11000)) {
+          throw error;
+        }
+      }
+    }
+
+    // 2. Recompute the per-type counts from the collection
+    const counts = await reactions
+      .aggregate([{ $match: { post: post._id } }, { $group: { _id: "$type", count: { $sum: 1 } } }])
+      .toArray();
+    const reactionCounts = Object.fromEntries(counts.map((c) => [c._id, c.count]));
+    await posts.updateOne(
+      { _id: post._id },
+      { $set: { reactionCounts }, $unset: { likes: "" } }
+    );
+
+    migratedPosts += 1;
+    migratedLikes += likes.length;
+  }
+
+  // 3. Posts that never had a likes array still need counts
+  const { modifiedCount } = await posts.updateMany(
+    { reactionCounts: { $exists: false } },
+    { $set: { reactionCounts: {} } }
+  );
+
+  console.log(
+    `Migration complete: ${migratedLikes} likes moved from ${migratedPosts} posts; ` +
+      `${modifiedCount} posts without likes initialised`
+  );
+}
+
+migrate()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
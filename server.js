@@ -3,7 +3,14 @@ const { createServer } = require("http");
 const { parse } = require("url");
 const next = require("next");
 const { Server } = require("socket.io");
-const { setIoInstance } = require("./lib/socketInstance"); // Keep using this
+const { getToken } = require("next-auth/jwt");
+const {
+  setIoInstance,
+  postRoom,
+  userRoom,
+  getEventLogPosition,
+  getEventsSince,
+} = require("./lib/socketInstance"); // Keep using this
 
 const dev = process.env.NODE_ENV !== "production";
 const hostname = "localhost";
@@ -12,6 +19,55 @@ const port = 3000;
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
+// Upper bound on post rooms a single join/leave request may name
+const MAX_ROOMS_PER_REQUEST = 100;
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+// Keep only well-formed post ids from a client-supplied list
+function sanitizePostIds(postIds) {
+  if (!Array.isArray(postIds)) return [];
+  return postIds
+    .filter((id) => typeof id === "string" && OBJECT_ID_PATTERN.test(id))
+    .slice(0, MAX_ROOMS_PER_REQUEST);
+}
+
+// Turn a raw Cookie header into the { name: value } map getToken expects
+function parseCookies(cookieHeader) {
+  const cookies = {};
+  if (!cookieHeader) return cookies;
+  for (const part of cookieHeader.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+// Handshake middleware: resolve the NextAuth session cookie to a user.
+// Anonymous sockets are still allowed to connect for public events, but
+// socket.data.userId stays null, so they never join a user room.
+async function authenticateSocket(socket, next) {
+  try {
+    const headers = socket.request.headers;
+    const token = await getToken({
+      req: { headers, cookies: parseCookies(headers.cookie) },
+      secret: process.env.NEXTAUTH_SECRET, // Same secret the API routes use
+    });
+    socket.data.userId = token?.id ?? null;
+    socket.data.username = token?.username ?? null;
+    next();
+  } catch (err) {
+    console.error(`Socket auth failed for ${socket.id}:`, err);
+    next(new Error("Authentication failed"));
+  }
+}
+
 function initializeSocketIO(httpServer) {
   console.log("Initializing Socket.IO server...");
   const io = new Server(httpServer, {
@@ -19,59 +75,66 @@ function initializeSocketIO(httpServer) {
     // cors: { origin: "YOUR_FRONTEND_URL", methods: ["GET", "POST"] },
   });
 
+  io.use(authenticateSocket);
+
   io.on("connection", (socket) => {
-    console.log(`🔌 Socket connected: ${socket.id}`);
+    console.log(
+      `🔌 Socket connected: ${socket.id} (${socket.data.userId ? `user ${socket.data.userId}` : "anonymous"})`
+    );
 
-    socket.on("hello", (msg) => {
-      console.log(`Message from ${socket.id}: ${msg}`);
-      socket.emit("helloFromServer", `Server received your message: ${msg}`);
+    // Personal events (notifications, DMs) go to the user's own room. This is
+    // the only way into a user room: clients cannot ask to join one, so only
+    // an authenticated socket ever receives (or has replayed) private events.
+    if (socket.data.userId) {
+      socket.join(userRoom(socket.data.userId));
+    }
+
+    // Clients subscribe to the posts they currently render
+    socket.on("join_posts", (postIds) => {
+      const ids = sanitizePostIds(postIds);
+      if (ids.length > 0) socket.join(ids.map(postRoom));
     });
 
-    // Listener for like updates from client
-    socket.on("like_updated_from_client", (data) => {
-      if (data && data.postId && Array.isArray(data.likes)) {
-          console.log(`Server received 'like_updated_from_client' for post ${data.postId} from ${socket.id}`);
-          // Broadcast 'like_updated' to all *other* connected clients
-          socket.broadcast.emit("like_updated", data);
-      } else {
-          console.warn(`Server received invalid 'like_updated_from_client' data from ${socket.id}:`, data);
+    socket.on("leave_posts", (postIds) => {
+      for (const id of sanitizePostIds(postIds)) {
+        socket.leave(postRoom(id));
       }
     });
 
-    // Listener for new posts from client
-    socket.on("new_post_from_client", (postData) => {
-        if (postData && postData._id && postData.author) {
-            console.log(`Server received 'new_post_from_client' (ID: ${postData._id}) from ${socket.id}`);
-            // Broadcast 'post_created' to all *other* connected clients
-            socket.broadcast.emit("post_created", postData);
-        } else {
-            console.warn(`Server received invalid 'new_post_from_client' data from ${socket.id}:`, postData);
-        }
+    // Tell the client where the event log stands so it can ask for a replay later
+    socket.emit("event_log_position", getEventLogPosition());
+
+    // A reconnecting client sends its last seen { epoch, seq }; resend what it
+    // missed from the rooms it is in, or ask it to refetch if the log moved on.
+    // Clients rejoin their post rooms before asking, so room checks hold, and
+    // user-room events only reach the socket whose session owns that room.
+    socket.on("replay_events", (position) => {
+      const entries = getEventsSince(position);
+      if (entries === null) {
+        console.log(`Socket ${socket.id} is too far behind, requesting resync`);
+        socket.emit("resync_required", getEventLogPosition());
+        return;
+      }
+      const epoch = getEventLogPosition().epoch;
+      const visible = entries.filter((entry) => {
+        if (!entry.room) return true;
+        const rooms = Array.isArray(entry.room) ? entry.room : [entry.room];
+        return rooms.some((room) => socket.rooms.has(room));
+      });
+      for (const entry of visible) {
+        socket.emit(entry.event, entry.payload, { epoch, seq: entry.seq });
+      }
+      console.log(`Replayed ${visible.length} event(s) to socket ${socket.id}`);
     });
 
-    // --- ADDED LISTENER FOR NEW COMMENTS FROM CLIENT ---
-    socket.on("new_comment_from_client", (commentData) => {
-        // commentData should be { postId: string, comment: PopulatedComment }
-        if (commentData && commentData.postId && commentData.comment?._id) {
-            console.log(`Server received 'new_comment_from_client' for post ${commentData.postId} from ${socket.id}`);
-            // Broadcast 'comment_added' to all *other* connected clients
-            // Send the same structure back
-            socket.broadcast.emit("comment_added", commentData);
-        } else {
-            console.warn(`Server received invalid 'new_comment_from_client' data from ${socket.id}:`, commentData);
-        }
+    socket.on("hello", (msg) => {
+      console.log(`Message from ${socket.id}: ${msg}`);
+      socket.emit("helloFromServer", `Server received your message: ${msg}`);
     });
-    socket.on("delete_post_from_client", (data) => {
-      // data should be { postId: string }
-      if (data && data.postId) {
-          console.log(`Server received 'delete_post_from_client' for post ${data.postId} from ${socket.id}`);
-          // Broadcast 'post_deleted' to all *other* connected clients
-          socket.broadcast.emit("post_deleted", { postId: data.postId });
-      } else {
-          console.warn(`Server received invalid 'delete_post_from_client' data from ${socket.id}:`, data);
-      }
-  });
-    // --- END ADDED LISTENER ---
+
+    // Post, like, comment and delete events are published by the API route
+    // handlers through lib/socketInstance.js; clients only listen for them.
+    // Like and comment events go only to the matching post:<id> room.
 
     socket.on("disconnect", (reason) => {
       console.log(`🔌 Socket disconnected: ${socket.id}, Reason: ${reason}`);
@@ -0,0 +1,160 @@
+// tests/fileType.test.ts
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import {
+  ImageFormat,
+  sniffImageFormat,
+  sniffVideoFormat,
+  validateImageUpload,
+  validateMediaUpload,
+} from "@/lib/fileType";
+import { processImage } from "@/lib/images";
+
+// Real images of every accepted format, made fresh so the corpus needs no binary fixtures
+const images = {} as Record<ImageFormat, Buffer>;
+
+before(async () => {
+  const base = () => sharp({ create: { width: 8, height: 8, channels: 3, background: "#336699" } });
+  images.jpeg = await base().jpeg().toBuffer();
+  images.png = await base().png().toBuffer();
+  images.gif = await base().gif().toBuffer();
+  images.webp = await base().webp().toBuffer();
+  images.avif = await base().avif().toBuffer();
+});
+
+const text = (value: string) => Buffer.from(value, "utf8");
+
+// An ISO-BMFF "ftyp" box with the given major and compatible brands
+function ftyp(major: string, compatible: string[]): Buffer {
+  const box = Buffer.alloc(16 + compatible.length * 4);
+  box.writeUInt32BE(box.length, 0);
+  box.write("ftyp", 4, "latin1");
+  box.write(major, 8, "latin1");
+  compatible.forEach((brand, i) => box.write(brand, 16 + i * 4, "latin1"));
+  return Buffer.concat([box, Buffer.alloc(32)]);
+}
+
+// An EBML header with the given DocType, as WebM and Matroska files start
+function ebml(docType: string): Buffer {
+  return Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84]), text(docType), Buffer.alloc(32)]);
+}
+
+describe("genuine files", () => {
+  it("detects each image format and accepts its declared type", () => {
+    for (const [format, bytes] of Object.entries(images)) {
+      assert.equal(sniffImageFormat(bytes), format);
+      assert.deepEqual(validateImageUpload(bytes, `image/${format}`), { format });
+    }
+  });
+
+  it("accepts a missing, generic or aliased declared type", () => {
+    assert.deepEqual(validateImageUpload(images.png, ""), { format: "png" });
+    assert.deepEqual(validateImageUpload(images.png, "application/octet-stream"), { format: "png" });
+    assert.deepEqual(validateImageUpload(images.jpeg, "image/jpg"), { format: "jpeg" });
+    assert.deepEqual(validateImageUpload(images.jpeg, "IMAGE/PJPEG"), { format: "jpeg" });
+  });
+
+  it("detects MP4 and WebM video", () => {
+    assert.equal(sniffVideoFormat(ftyp("isom", ["isom", "avc1", "mp41"])), "mp4");
+    assert.equal(sniffVideoFormat(ftyp("mp42", ["mp42"])), "mp4");
+    assert.equal(sniffVideoFormat(ebml("webm")), "webm");
+    assert.deepEqual(validateMediaUpload(ftyp("isom", ["isom"]), "video/mp4"), { format: "mp4" });
+    assert.deepEqual(validateMediaUpload(ebml("webm"), "video/webm"), { format: "webm" });
+  });
+
+  it("still accepts images where video is allowed", () => {
+    assert.deepEqual(validateMediaUpload(images.gif, "image/gif"), { format: "gif" });
+  });
+});
+
+describe("spoofed files", () => {
+  it("rejects HTML labelled as an image", () => {
+    const html = text("<!DOCTYPE html><html><script>alert(document.cookie)</script></html>");
+    assert.deepEqual(validateImageUpload(html, "image/png"), {
+      error: "Invalid file type. Only JPEG, PNG, GIF, WebP and AVIF images are allowed.",
+    });
+    assert.ok("error" in validateMediaUpload(html, "video/mp4"));
+  });
+
+  it("rejects a real image labelled as another format", () => {
+    assert.deepEqual(validateImageUpload(images.png, "image/jpeg"), { error: "File content does not match its type." });
+    assert.deepEqual(validateImageUpload(images.gif, "image/webp"), { error: "File content does not match its type." });
+    assert.deepEqual(validateMediaUpload(images.jpeg, "video/mp4"), { error: "File content does not match its type." });
+    assert.deepEqual(validateMediaUpload(ebml("webm"), "video/mp4"), { error: "File content does not match its type." });
+  });
+
+  it("rejects SVG however it is labelled or prefixed", () => {
+    const svgs = [
+      `<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"/>`,
+      `<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>`,
+      `﻿  <!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "x"><svg></svg>`,
+      `  <SVG></SVG>`,
+    ];
+    for (const svg of svgs) {
+      for (const declared of ["image/svg+xml", "image/png", ""]) {
+        assert.deepEqual(validateImageUpload(text(svg), declared), { error: "SVG images are not supported." }, svg);
+      }
+    }
+  });
+
+  it("rejects truncated and near-miss signatures", () => {
+    const truncated = [
+      Buffer.from([]),
+      images.jpeg.subarray(0, 2), // FF D8 without the marker byte
+      images.png.subarray(0, 7), // One byte short of the 8-byte signature
+      text("GIF8"),
+      text("GIF88a"), // Not a GIF version
+      text("RIFF\x00\x00\x00\x00WEB"),
+      text("RIFF\x00\x00\x00\x00WAVE"), // RIFF, but audio
+      ftyp("avif", []).subarray(0, 12),
+      Buffer.from([0x1a, 0x45, 0xdf]),
+    ];
+    for (const bytes of truncated) {
+      assert.equal(sniffImageFormat(bytes), null, bytes.toString("hex"));
+      assert.equal(sniffVideoFormat(bytes), null, bytes.toString("hex"));
+      assert.ok("error" in validateMediaUpload(bytes, "image/png"), bytes.toString("hex"));
+    }
+  });
+
+  it("rejects ISO-BMFF and EBML files that are not MP4 or WebM video", () => {
+    assert.equal(sniffVideoFormat(ftyp("qt  ", ["qt  "])), null); // QuickTime
+    assert.equal(sniffVideoFormat(ftyp("heic", ["mif1", "heic"])), null); // HEIC photo
+    assert.equal(sniffVideoFormat(ftyp("M4A ", ["M4A ", "mp42"]).subarray(0, 16)), null); // Audio; brands cut off
+    assert.equal(sniffVideoFormat(ftyp("avif", ["avif", "mif1", "miaf", "iso8"])), null); // AVIF still
+    assert.equal(sniffVideoFormat(ebml("matroska")), null); // Matroska, not WebM
+  });
+
+  it("does not let a valid header carry a different file through the pipeline", async () => {
+    // Each starts with a genuine signature, so sniffing alone accepts it;
+    // decoding is what has to refuse the rest
+    const polyglots = [
+      { format: "gif" as const, bytes: text("GIF89a/*<script>alert(1)</script>*/=1;") }, // GIF header, JavaScript body
+      { format: "png" as const, bytes: Buffer.concat([images.png.subarray(0, 8), text("<html><body>hi</body></html>")]) },
+      { format: "jpeg" as const, bytes: Buffer.concat([images.jpeg.subarray(0, 3), text("<?php system($_GET['c']); ?>")]) },
+    ];
+    for (const { format, bytes } of polyglots) {
+      assert.deepEqual(validateImageUpload(bytes, ""), { format });
+      const result = await processImage(bytes, format);
+      assert.ok("error" in result, `${format} polyglot should not decode`);
+    }
+  });
+
+  it("drops a payload appended to a valid image when it is re-encoded", async () => {
+    // A JPEG with a ZIP archive glued on the end is still a valid JPEG
+    const zip = Buffer.concat([text("PK\x03\x04"), text("evil.php"), Buffer.alloc(64)]);
+    const polyglot = Buffer.concat([images.jpeg, zip]);
+    assert.deepEqual(validateImageUpload(polyglot, "image/jpeg"), { format: "jpeg" });
+
+    const result = await processImage(polyglot, "jpeg");
+    assert.ok(!("error" in result));
+    assert.equal(result.original.data.includes(text("PK\x03\x04")), false);
+  });
+
+  it("rejects an image whose decoder disagrees with its signature", async () => {
+    // A PNG signature in front of a JPEG body
+    const mixed = Buffer.concat([images.png.subarray(0, 8), images.jpeg]);
+    assert.equal(sniffImageFormat(mixed), "png");
+    assert.ok("error" in (await processImage(mixed, "png")));
+  });
+});
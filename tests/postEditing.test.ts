@@ -0,0 +1,77 @@
+// tests/postEditing.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import Post from "@/models/Post";
+import { buildEditUpdate, resolveEditedContent } from "@/lib/postEditing";
+
+const createdAt = new Date("2026-01-01T12:00:00Z");
+const media = [{ url: "/api/files/a.jpg", alt: "", width: 10, height: 10, contentType: "image/jpeg" }];
+
+type EditablePost = Parameters<typeof buildEditUpdate>[0];
+
+const mediaOnlyPost: EditablePost = { content: "A caption", imageUrl: undefined, media, createdAt, editedAt: undefined };
+const textPost: EditablePost = { content: "Just text", imageUrl: undefined, media: [], createdAt, editedAt: undefined };
+
+// The post as it would be stored after the update (what the edit leaves behind)
+function applyUpdate(post: EditablePost, update: ReturnType<typeof buildEditUpdate>) {
+  const doc = new Post({ author: new mongoose.Types.ObjectId(), ...post, revisions: [] });
+  doc.set(update.$set as object);
+  doc.revisions.push(update.$push!.revisions);
+  return doc;
+}
+
+describe("resolveEditedContent", () => {
+  it("lets a media-only post's text be emptied", () => {
+    assert.deepEqual(resolveEditedContent(mediaOnlyPost, ""), { content: "" });
+    assert.deepEqual(resolveEditedContent(mediaOnlyPost, "   "), { content: "" });
+  });
+
+  it("still requires text on posts without attachments", () => {
+    assert.deepEqual(resolveEditedContent(textPost, "  "), { error: "Post content cannot be empty" });
+  });
+
+  it("keeps the current text when none is sent and checks what is", () => {
+    assert.deepEqual(resolveEditedContent(textPost, undefined), { content: "Just text" });
+    assert.deepEqual(resolveEditedContent(textPost, "  New text "), { content: "New text" });
+    assert.deepEqual(resolveEditedContent(textPost, 42), { error: "Post content must be text" });
+    assert.deepEqual(resolveEditedContent(textPost, "x".repeat(281)), { error: "Post content cannot exceed 280 characters" });
+  });
+});
+
+describe("buildEditUpdate", () => {
+  it("empties a media-only post's text and keeps the old text as a revision", () => {
+    const editedAt = new Date("2026-01-01T12:05:00Z");
+    const update = buildEditUpdate(mediaOnlyPost, { content: "", imageUrl: undefined, mentions: [], editedAt });
+    assert.equal(update.$set?.content, "");
+    assert.deepEqual(update.$push?.revisions, { content: "A caption", imageUrl: undefined, createdAt });
+
+    const edited = applyUpdate(mediaOnlyPost, update);
+    assert.equal(edited.validateSync(), undefined);
+  });
+
+  it("stores a media-only post's empty text as a valid revision on the next edit", () => {
+    const emptied = { ...mediaOnlyPost, content: "", editedAt: new Date("2026-01-01T12:05:00Z") };
+    const update = buildEditUpdate(emptied, { content: "Caption again", imageUrl: undefined, mentions: [], editedAt: new Date() });
+    assert.deepEqual(update.$push?.revisions, { content: "", imageUrl: undefined, createdAt: emptied.editedAt });
+
+    const edited = applyUpdate(emptied, update);
+    assert.equal(edited.validateSync(), undefined);
+    assert.equal(edited.revisions[0].content, "");
+  });
+
+  it("sets or unsets the single image", () => {
+    const withImage = { ...textPost, imageUrl: "/api/files/old.jpg" };
+    const replaced = buildEditUpdate(withImage, { content: "Just text", imageUrl: "/api/files/new.jpg", mentions: [], editedAt: new Date() });
+    assert.equal(replaced.$set?.imageUrl, "/api/files/new.jpg");
+    assert.equal(replaced.$unset, undefined);
+
+    const removed = buildEditUpdate(withImage, { content: "Just text", imageUrl: undefined, mentions: [], editedAt: new Date() });
+    assert.deepEqual(removed.$unset, { imageUrl: 1 });
+  });
+
+  it("re-extracts hashtags from the new text", () => {
+    const update = buildEditUpdate(textPost, { content: "Now with #Tags", imageUrl: undefined, mentions: [], editedAt: new Date() });
+    assert.deepEqual(update.$set?.hashtags, ["tags"]);
+  });
+});
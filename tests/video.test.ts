@@ -0,0 +1,79 @@
+// tests/video.test.ts
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import { inspectVideo } from "@/lib/video";
+import { MAX_VIDEO_DURATION_SECONDS } from "@/lib/media";
+
+// Real clips, rendered from ffmpeg's test pattern with the bundled binary
+let dir: string;
+const clips: Record<string, Buffer> = {};
+
+function render(name: string, args: string[]): Buffer {
+  const file = path.join(dir, name);
+  execFileSync(ffmpeg.path, ["-v", "error", "-y", ...args, file], { timeout: 60_000 });
+  return readFileSync(file);
+}
+
+before(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "video-test-"));
+  const pattern = (seconds: number, rate = 10) => ["-f", "lavfi", "-i", `testsrc=duration=${seconds}:size=64x48:rate=${rate}`];
+  clips.mp4 = render("short.mp4", [...pattern(2), "-pix_fmt", "yuv420p"]);
+  clips.webm = render("short.webm", [...pattern(2), "-c:v", "libvpx"]);
+  // Phones record portrait video as landscape frames plus a rotation flag
+  render("landscape.mp4", [...pattern(2), "-pix_fmt", "yuv420p"]);
+  clips.rotated = render("rotated.mp4", ["-i", path.join(dir, "landscape.mp4"), "-c", "copy", "-metadata:s:v:0", "rotate=90"]);
+  clips.long = render("long.mp4", [...pattern(MAX_VIDEO_DURATION_SECONDS + 10, 1), "-pix_fmt", "yuv420p"]);
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("inspectVideo", () => {
+  for (const format of ["mp4", "webm"] as const) {
+    it(`reads the size and duration of a short ${format} clip and makes a poster`, async () => {
+      const video = await inspectVideo(clips[format], format);
+      assert.ok(!("error" in video), JSON.stringify(video));
+      assert.equal(video.width, 64);
+      assert.equal(video.height, 48);
+      assert.ok(Math.abs(video.duration - 2) < 0.2, `duration ${video.duration}`);
+
+      assert.equal(video.poster.contentType, "image/jpeg");
+      const poster = await sharp(video.poster.data).metadata();
+      assert.equal(poster.format, "jpeg");
+      assert.deepEqual([poster.width, poster.height], [64, 48]);
+    });
+  }
+
+  it("reports the display size of a rotated clip", async () => {
+    const video = await inspectVideo(clips.rotated, "mp4");
+    assert.ok(!("error" in video), JSON.stringify(video));
+    assert.deepEqual([video.width, video.height], [48, 64]);
+    assert.deepEqual([video.poster.width, video.poster.height], [48, 64]);
+  });
+
+  it("rejects clips over the length limit", async () => {
+    assert.deepEqual(await inspectVideo(clips.long, "mp4"), {
+      error: `Videos can be at most ${MAX_VIDEO_DURATION_SECONDS} seconds long.`,
+    });
+  });
+
+  it("rejects a file that only looks like a video", async () => {
+    const header = clips.mp4.subarray(0, 32); // Genuine ftyp box, nothing playable after it
+    const result = await inspectVideo(Buffer.concat([header, Buffer.alloc(256, 7)]), "mp4");
+    assert.ok("error" in result);
+  });
+
+  it("cleans up its temporary files", async () => {
+    const leftovers = () => readdirSync(os.tmpdir()).filter((name) => name.startsWith("upload-"));
+    const existing = leftovers().length;
+    await inspectVideo(clips.mp4, "mp4");
+    assert.equal(leftovers().length, existing);
+  });
+});